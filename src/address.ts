@@ -0,0 +1,184 @@
+import net from "net";
+import { RequestError } from "./errors";
+
+/**
+ * Сеть в CIDR записи: адрес и длина префикса
+ */
+export interface Cidr {
+  address: string;
+  prefix: number;
+}
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const MAC_PATTERN = /^[0-9a-f]{2}([:-]?)[0-9a-f]{2}(\1[0-9a-f]{2}){4}$/i;
+
+/**
+ * Проверяет, что строка — IPv4 адрес без ведущих нулей в октетах
+ */
+export function isIPv4(value: string): boolean {
+  const match = IPV4_PATTERN.exec(value);
+  return (
+    match !== null &&
+    match.slice(1).every((octet) => Number(octet) <= 255 && String(Number(octet)) === octet)
+  );
+}
+
+/**
+ * Разбирает IPv4 адрес
+ * @param value - Строка адреса, например "10.0.0.5"
+ * @param field - Имя параметра для сообщения об ошибке, например "--ip"
+ * @throws RequestError если строка не является IPv4 адресом
+ */
+export function parseIPv4(value: string, field: string): string {
+  if (!isIPv4(value)) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not an IPv4 address`);
+  }
+  return value;
+}
+
+/**
+ * Разбирает сеть в CIDR записи; без префикса считается одиночный адрес (/32)
+ * @param value - Строка вида "10.0.0.0/30" или "10.0.0.5"
+ * @param field - Имя параметра для сообщения об ошибке
+ * @throws RequestError если адрес или префикс некорректны, или адрес не совпадает с началом сети
+ */
+export function parseCidr(value: string, field: string): Cidr {
+  const [address, prefixText, ...rest] = value.split("/");
+  if (rest.length) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not a CIDR network`);
+  }
+  parseIPv4(address, field);
+  const prefix = prefixText === undefined ? 32 : Number(prefixText);
+  if (!/^\d{1,2}$/.test(prefixText ?? "32") || prefix > 32) {
+    throw new RequestError(`Invalid ${field}: prefix /${prefixText} is out of range 0-32`);
+  }
+  const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+  if ((ipv4ToNumber(address) & mask) >>> 0 !== ipv4ToNumber(address)) {
+    throw new RequestError(`Invalid ${field}: ${address} is not the network address of /${prefix}`);
+  }
+  return { address, prefix };
+}
+
+/**
+ * Проверяет, что строка — IPv6 адрес (в любой допустимой записи, без зоны "%eth0")
+ */
+export function isIPv6(value: string): boolean {
+  return net.isIPv6(value) && !value.includes("%");
+}
+
+/**
+ * Разбирает IPv6 адрес
+ * @param value - Строка адреса, например "2001:DB8:0:0::1"
+ * @param field - Имя параметра для сообщения об ошибке
+ * @returns Адрес в сокращённой записи (RFC 5952), как его печатает RouterOS: "2001:db8::1"
+ * @throws RequestError если строка не является IPv6 адресом
+ */
+export function parseIPv6(value: string, field: string): string {
+  if (!isIPv6(value)) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not an IPv6 address`);
+  }
+  return formatIPv6(ipv6ToGroups(value));
+}
+
+/**
+ * Разбирает IPv6 сеть в CIDR записи; без префикса считается одиночный адрес (/128)
+ * Делегированные абоненту префиксы обычно /56 или /64
+ * @param value - Строка вида "2001:db8:100::/56" или "2001:db8::5"
+ * @param field - Имя параметра для сообщения об ошибке
+ * @throws RequestError если адрес или префикс некорректны, или адрес не совпадает с началом сети
+ */
+export function parseIPv6Cidr(value: string, field: string): Cidr {
+  const [text, prefixText, ...rest] = value.split("/");
+  if (rest.length) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not a CIDR network`);
+  }
+  const address = parseIPv6(text, field);
+  const prefix = prefixText === undefined ? 128 : Number(prefixText);
+  if (!/^\d{1,3}$/.test(prefixText ?? "128") || prefix > 128) {
+    throw new RequestError(`Invalid ${field}: prefix /${prefixText} is out of range 0-128`);
+  }
+  const bits = ipv6ToGroups(address).reduce((acc, group) => (acc << 16n) | BigInt(group), 0n);
+  const hostBits = (1n << BigInt(128 - prefix)) - 1n;
+  if ((bits & hostBits) !== 0n) {
+    throw new RequestError(`Invalid ${field}: ${address} is not the network address of /${prefix}`);
+  }
+  return { address, prefix };
+}
+
+/**
+ * Разбирает адрес абонента любого семейства
+ * @returns IPv4 адрес как есть, IPv6 — в сокращённой записи
+ * @throws RequestError если строка не является ни IPv4, ни IPv6 адресом
+ */
+export function parseAddress(value: string, field: string): string {
+  if (isIPv4(value)) return value;
+  if (isIPv6(value)) return parseIPv6(value, field);
+  throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not an IP address`);
+}
+
+/**
+ * Одиночный адрес в записи CIDR: /32 для IPv4, /128 для IPv6
+ */
+export function hostCidr(address: string): Cidr {
+  return { address, prefix: isIPv6(address) ? 128 : 32 };
+}
+
+/**
+ * Разбирает MAC адрес в форматах "aa:bb:cc:dd:ee:ff", "aa-bb-...", "aabbccddeeff"
+ * @param value - Строка MAC адреса
+ * @param field - Имя параметра для сообщения об ошибке
+ * @returns MAC в записи RouterOS: "AA:BB:CC:DD:EE:FF"
+ * @throws RequestError если строка не является MAC адресом
+ */
+export function parseMac(value: string, field: string): string {
+  if (!MAC_PATTERN.test(value)) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not a MAC address`);
+  }
+  const digits = value.replace(/[:-]/g, "").toUpperCase();
+  return digits.match(/../g)!.join(":");
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((acc, octet) => ((acc << 8) | Number(octet)) >>> 0, 0);
+}
+
+/**
+ * IPv6 адрес -> 8 групп по 16 бит; адрес должен быть проверен isIPv6
+ */
+function ipv6ToGroups(address: string): number[] {
+  let text = address;
+  // Хвост в записи IPv4: "::ffff:10.0.0.5"
+  const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (dotted) {
+    const value = ipv4ToNumber(dotted[1]);
+    const groups = `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+    text = text.slice(0, dotted.index) + groups;
+  }
+  const parse = (part: string) => (part ? part.split(":").map((group) => parseInt(group, 16)) : []);
+  const [head, tail] = text.split("::");
+  if (tail === undefined) return parse(head);
+  const left = parse(head);
+  const right = parse(tail);
+  return [...left, ...new Array(8 - left.length - right.length).fill(0), ...right];
+}
+
+/**
+ * Сокращённая запись: нули в начале групп убираются, самая длинная серия нулевых групп
+ * (от двух) заменяется на "::"
+ */
+function formatIPv6(groups: number[]): string {
+  let start = -1;
+  let length = 1;
+  for (let i = 0; i < groups.length; ) {
+    let end = i;
+    while (end < groups.length && groups[end] === 0) end++;
+    if (end - i > length) {
+      start = i;
+      length = end - i;
+    }
+    i = Math.max(end, i + 1);
+  }
+  const hex = groups.map((group) => group.toString(16));
+  if (start === -1) return hex.join(":");
+  return `${hex.slice(0, start).join(":")}::${hex.slice(start + length).join(":")}`;
+}
@@ -0,0 +1,317 @@
+// admin-api.ts
+// HTTP/JSON API для инженеров поддержки: посмотреть и исправить шейпинг абонента
+// без входа на MikroTik.
+//
+// Включается разделом "admin" в nas-config.json:
+//   { "port": 8080, "host": "127.0.0.1", "token": "<не короче 16 символов>", "readOnly": false }
+//
+// Каждый запрос должен содержать заголовок "Authorization: Bearer <token>".
+// <nas> — адрес или алиас из конфига, <ip> — IPv4 или IPv6 адрес абонента.
+//
+//   GET    /nas/<nas>/queues/<ip>   -> 200 { "queues": [ { ".id": "*1", "max-limit": ... } ] }
+//   PUT    /nas/<nas>/queues/<ip>   { "speed": 100 } (Мбит/с) или { "shape": "512k/2M" }
+//                                   (формат --shape, см. shape.ts), необязательно "login"
+//                                   -> 200 { "queues": [...] }
+//   DELETE /nas/<nas>/queues/<ip>   -> 204
+//   GET    /nas/<nas>/leases/<ip>   -> 200 { "leases": [...] }
+//   DELETE /nas/<nas>/leases/<ip>   -> 204
+// Для IPv6 адреса leases — записи /ipv6/dhcp-server/binding; делегированный префикс
+// передаётся с экранированным "/": /nas/<nas>/leases/2001:db8:100::%2F56
+//
+// GET возвращает очереди абонента "sub-<логин>" (см. subscriber.ts), в которую входит <ip>,
+// а без неё — очереди с target <ip>.
+// PUT меняет очередь абонента, в которую входит <ip>;
+// без такой очереди нужен "login" в теле, и очередь создаётся. DELETE удаляет очередь абонента
+// целиком или, если её нет, очереди с target <ip>.
+// Изменения выполняются по очереди с командами биллинга для того же абонента (JobQueue.exclusive).
+//
+// В режиме readOnly PUT и DELETE отклоняются с 403.
+// Изменения пишутся в журнал аудита (audit-log.ts) с адресом клиента.
+// Ошибки возвращаются как { "error": { "code", "message", "category"?, "categoryName"? } };
+// code и category те же, что в ответах ERROR протокола сокета (см. protocol.ts).
+
+import * as http from "http";
+import crypto from "crypto";
+import RouterApi from "./api";
+import JobQueue from "./job-queue";
+import { AdminConfig, NasServer, resolveNas } from "./config-preloader";
+import { parseIPv4, parseIPv6Cidr } from "./address";
+import { ErrorCode, errorReply } from "./protocol";
+import { RequestError, RouterOSTrapError } from "./errors";
+import { parseShape, ShapeProfile, symmetricShape } from "./shape";
+import { Subscriber, toTarget } from "./subscriber";
+import { withAuditContext } from "./audit-log";
+
+/**
+ * Максимальный размер тела запроса в байтах
+ */
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * HTTP статус для кода ошибки протокола
+ */
+const HTTP_STATUS: Record<ErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNKNOWN_VERB: 400,
+  UNSUPPORTED_VERSION: 400,
+  UNKNOWN_NAS: 404,
+  ROUTEROS_TRAP: 422,
+  COA_NAK: 422,
+  LOGIN_FAILED: 502,
+  CONNECTION_FAILED: 502,
+  ROUTEROS_FATAL: 502,
+  TIMEOUT: 504,
+  INTERNAL: 500,
+};
+
+/**
+ * Ошибка уровня HTTP (маршрут, метод, авторизация)
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+type Resource = "queues" | "leases";
+
+/**
+ * Разобранный путь запроса
+ */
+interface Route {
+  nas: NasServer;
+  resource: Resource;
+  ip: string;
+}
+
+/**
+ * Ответы RouterOS приходят с ключами "=.id", "=max-limit"; наружу отдаём без "="
+ */
+function toJson(rows: Iterable<object>): Record<string, unknown>[] {
+  return [...rows].map((row) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key.replace(/^=/, ""), value])),
+  );
+}
+
+/**
+ * Сравнивает токены за постоянное время
+ */
+function checkToken(header: string | undefined, token: string): boolean {
+  const [scheme, value] = (header ?? "").split(" ");
+  if (scheme !== "Bearer" || !value) return false;
+  const digest = (text: string) => crypto.createHash("sha256").update(text).digest();
+  return crypto.timingSafeEqual(digest(value), digest(token));
+}
+
+/**
+ * Разбирает путь "/nas/<nas>/<resource>/<ip>"
+ * @throws HttpError 404 если путь не соответствует ни одному маршруту
+ * @throws UnknownNasError, RequestError если NAS или IP некорректны
+ */
+function parseRoute(url: string): Route {
+  let parts: string[];
+  try {
+    parts = url.split("?")[0].split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, "BAD_REQUEST", `Malformed path ${url}`);
+  }
+  const [prefix, nas, resource, ip, ...rest] = parts;
+  if (prefix !== "nas" || !nas || (resource !== "queues" && resource !== "leases") || !ip) {
+    throw new HttpError(404, "NOT_FOUND", `No route for ${url}`);
+  }
+  if (rest.length) {
+    throw new HttpError(404, "NOT_FOUND", `No route for ${url}`);
+  }
+  // IPv6 адрес приводится к записи RouterOS, префикс остаётся с "/": "2001:db8:100::/56"
+  const address = ip.includes(":") ? toTarget(parseIPv6Cidr(ip, "ip")) : parseIPv4(ip, "ip");
+  return { nas: resolveNas(nas), resource, ip: address };
+}
+
+function readBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        reject(new HttpError(413, "PAYLOAD_TOO_LARGE", `Body is larger than ${MAX_BODY_SIZE}`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}"));
+      } catch {
+        reject(new RequestError("Body must be valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Скорость из тела PUT: { "speed": <Мбит/с> } или { "shape": "<как --shape>" }
+ */
+function parseShapeBody(body: unknown): ShapeProfile {
+  const fields = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+  const { speed, shape } = fields;
+  if (typeof shape === "string") {
+    return parseShape(shape, '"shape"');
+  }
+  if (typeof speed !== "number" || !Number.isInteger(speed) || speed <= 0) {
+    throw new RequestError('"speed" must be a positive integer number of megabits');
+  }
+  return symmetricShape(speed * 1000);
+}
+
+/**
+ * Логин из тела PUT: { "login": "<логин>" }, необязателен
+ */
+function parseLoginBody(body: unknown): string | undefined {
+  const fields = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+  const { login } = fields;
+  if (login === undefined) return undefined;
+  if (typeof login !== "string" || login === "" || /[\s,]/.test(login)) {
+    throw new RequestError('"login" must be a non-empty string without spaces');
+  }
+  return login;
+}
+
+/**
+ * Устанавливает скорость абонента, в очередь которого входит адрес
+ * @returns Логин абонента
+ * @throws RequestError если очереди абонента нет и логин не передан
+ */
+async function setSpeed(nas: NasServer, ip: string, body: unknown): Promise<string> {
+  const shape = parseShapeBody(body);
+  const login = parseLoginBody(body);
+  const subscriber: Subscriber | undefined =
+    (await RouterApi.findSubscriber(nas, ip, login)) ??
+    (login ? { login, targets: [] } : undefined);
+  if (!subscriber) {
+    throw new RequestError(`No subscriber queue for ${ip}, pass "login" to create one`);
+  }
+  if (!subscriber.targets.includes(toTarget(ip))) {
+    subscriber.targets.push(toTarget(ip));
+  }
+  await RouterApi.setSubscriberQueue(nas, subscriber, shape);
+  return subscriber.login;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body) + "\n");
+}
+
+/**
+ * Переводит ошибку в JSON ответ; '!trap' передаётся с категорией как в ответе RouterOS
+ */
+function sendError(res: http.ServerResponse, error: unknown) {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } });
+    return;
+  }
+  const reply = errorReply("-", error);
+  if (reply.status !== "error") return;
+  const { code, message, category } = reply;
+  const categoryName = error instanceof RouterOSTrapError ? error.categoryName : undefined;
+  if (code === "INTERNAL") {
+    console.error("[Admin] Request failed:", error);
+  }
+  sendJson(res, HTTP_STATUS[code], { error: { code, message, category, categoryName } });
+}
+
+/**
+ * Выполняет запрос к маршруту
+ * @returns Тело ответа или null для 204
+ */
+async function dispatch(
+  req: http.IncomingMessage,
+  route: Route,
+  config: AdminConfig,
+): Promise<unknown> {
+  const { nas, resource, ip } = route;
+  const method = req.method ?? "GET";
+
+  if (method !== "GET" && config.readOnly) {
+    throw new HttpError(403, "READ_ONLY", "Admin API is in read-only mode");
+  }
+  if (method !== "GET") {
+    console.log(`[Admin] ${method} ${resource} ${ip} on ${nas} from ${req.socket.remoteAddress}`);
+  }
+
+  if (resource === "queues") {
+    switch (method) {
+      case "GET":
+        return { queues: toJson(await RouterApi.getAddressQueues(nas, ip)) };
+      case "PUT": {
+        const body = await readBody(req);
+        const login = await JobQueue.exclusive(ip, () => setSpeed(nas, ip, body));
+        return { queues: toJson(await RouterApi.getSubscriberQueues(nas, login)) };
+      }
+      case "DELETE":
+        await JobQueue.exclusive(ip, () => RouterApi.removeAddressQueues(nas, ip));
+        return null;
+    }
+  } else {
+    const ipv6 = ip.includes(":");
+    switch (method) {
+      case "GET": {
+        const leases = ipv6 ? RouterApi.getBindings(nas, ip) : RouterApi.getLease(nas, ip);
+        return { leases: toJson(await leases) };
+      }
+      case "DELETE":
+        await JobQueue.exclusive(ip, () =>
+          ipv6 ? RouterApi.removeBindings(nas, ip) : RouterApi.removeLease(nas, ip),
+        );
+        return null;
+    }
+  }
+  throw new HttpError(405, "METHOD_NOT_ALLOWED", `${method} is not allowed for ${resource}`);
+}
+
+/**
+ * Запускает HTTP API поддержки
+ * @param config - Раздел "admin" из nas-config.json
+ */
+export function startAdminServer(config: AdminConfig): http.Server {
+  const server = http.createServer((req, res) => {
+    if (!checkToken(req.headers.authorization, config.token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, new HttpError(401, "UNAUTHORIZED", "Missing or invalid bearer token"));
+      return;
+    }
+    Promise.resolve()
+      .then(() => {
+        const context = {
+          source: "admin" as const,
+          actor: req.socket.remoteAddress,
+          request: `${req.method} ${req.url}`,
+        };
+        return withAuditContext(context, () => dispatch(req, parseRoute(req.url ?? "/"), config));
+      })
+      .then((body) => {
+        if (body === null) {
+          res.writeHead(204).end();
+        } else {
+          sendJson(res, 200, body);
+        }
+      })
+      .catch((error) => sendError(res, error));
+  });
+  server.on("error", (err) => {
+    console.error("[Admin] Listener error:", err);
+  });
+  server.listen(config.port, config.host, () => {
+    const mode = config.readOnly ? " (read-only)" : "";
+    console.log(`[Admin] Listening on http://${config.host}:${config.port}${mode}`);
+  });
+  return server;
+}
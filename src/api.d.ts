@@ -53,4 +53,64 @@ export interface RouterOSQueue {
     '=invalid': string;
     '=dynamic': string;
     '=disabled': string;
+    '=comment'?: string;
   }
+
+export interface RouterOSIPv6Binding {
+    '=.id': string;
+    '=address': string;
+    '=duid': string;
+    '=iaid': string;
+    '=life-time': string;
+    '=prefix-pool': string;
+    '=server': string;
+    '=status': string;
+    '=last-seen': string;
+    '=expires-after': string;
+    '=comment'?: string;
+    '=dynamic': string;
+    '=disabled': string;
+}
+
+export interface RouterOSPppActive {
+    '=.id': string;
+    '=name': string;
+    '=service': string;
+    '=caller-id': string;
+    '=address': string;
+    '=uptime': string;
+    '=encoding': string;
+    '=session-id': string;
+    '=limit-bytes-in': string;
+    '=limit-bytes-out': string;
+    '=radius': string;
+}
+
+export interface RouterOSHotspotActive {
+    '=.id': string;
+    '=server': string;
+    '=user': string;
+    '=address': string;
+    '=mac-address': string;
+    '=login-by': string;
+    '=uptime': string;
+    '=session-id'?: string;
+    '=session-time-left': string;
+    '=idle-time': string;
+    '=bytes-in': string;
+    '=bytes-out': string;
+    '=radius': string;
+}
+
+export type RouterOSActiveSession = RouterOSPppActive | RouterOSHotspotActive;
+
+export interface RouterOSAddressListEntry {
+    '=.id': string;
+    '=list': string;
+    '=address': string;
+    '=comment'?: string;
+    '=timeout'?: string;
+    '=creation-time': string;
+    '=dynamic': string;
+    '=disabled': string;
+}
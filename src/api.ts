@@ -1,8 +1,118 @@
 import ConnectionManager from "./connections-manager";
-import { RouterOSLease, RouterOSQueue } from "./api.d";
-import { NasServer } from "./config-preloader";
+import { Subscription } from "./subscription";
+import { ApiReply, RouterOSClient } from "./ros-openai";
+import {
+  CommandTimeoutError,
+  RequestError,
+  RouterOSTrapError,
+  VerificationError,
+} from "./errors";
+import {
+  RouterOSActiveSession,
+  RouterOSAddressListEntry,
+  RouterOSIPv6Binding,
+  RouterOSLease,
+  RouterOSQueue,
+} from "./api.d";
+import { getNasConfig, NasConfig, NasServer } from "./config-preloader";
+import { add, disable, enable, makeStatic, print, remove, set } from "./query-builder";
+import { apiCommandDuration, apiCommandsTotal, trapsTotal } from "./metrics";
+import AuditLog from "./audit-log";
+import { formatRateLimit, queueAttributes, sameQueueValue, ShapeProfile } from "./shape";
+import {
+  queueComment,
+  queueName,
+  sameTargets,
+  Subscriber,
+  subscriberOfQueue,
+  toTarget,
+} from "./subscriber";
+import { isDynamic, leaseAttributes, leaseChanges, StaticLease } from "./leases";
+import {
+  describeQuery,
+  requireCriteria,
+  SESSION_KINDS,
+  SESSION_TABLES,
+  SessionKind,
+  SessionQuery,
+  sessionIdVariants,
+} from "./sessions";
+
+/**
+ * Атрибуты очереди, значения которых на роутере отличаются от требуемых
+ */
+function changedAttributes(
+  queue: RouterOSQueue,
+  wanted: Record<string, string>,
+): Record<string, string> {
+  const current = queue as unknown as Record<string, string | undefined>;
+  return Object.fromEntries(
+    Object.entries(wanted).filter(([key, value]) => {
+      const actual = current[`=${key}`];
+      if (key === "target") return !sameTargets(actual, value.split(","));
+      if (key === "name" || key === "comment") return actual !== value;
+      return !sameQueueValue(key, actual, value);
+    }),
+  );
+}
+
+/**
+ * Очереди уже в требуемом состоянии: ни у одной нет отличающихся атрибутов
+ */
+function queuesUpToDate(queues: Set<RouterOSQueue>, wanted: Record<string, string>): boolean {
+  return [...queues].every((queue) => Object.keys(changedAttributes(queue, wanted)).length === 0);
+}
+
+/**
+ * Атрибуты simple queue, которые задаются командами add и set;
+ * остальные свойства (счётчики, rate, dynamic, invalid) RouterOS вычисляет сам
+ */
+const WRITABLE_QUEUE_ATTRIBUTES = [
+  "name",
+  "target",
+  "parent",
+  "packet-marks",
+  "priority",
+  "queue",
+  "limit-at",
+  "max-limit",
+  "burst-limit",
+  "burst-threshold",
+  "burst-time",
+  "bucket-size",
+  "comment",
+  "disabled",
+];
+
+/**
+ * Записываемые атрибуты очереди: по ним очередь восстанавливается после неудачного изменения
+ */
+function writableAttributes(queue: RouterOSQueue): Record<string, string> {
+  const current = queue as unknown as Record<string, string | undefined>;
+  return Object.fromEntries(
+    WRITABLE_QUEUE_ATTRIBUTES.flatMap((key) => {
+      const value = current[`=${key}`];
+      return value === undefined ? [] : [[key, value]];
+    }),
+  );
+}
+
+/**
+ * Записи RouterOS для журнала аудита: ключи без префикса "="
+ */
+function toAuditState(rows: Iterable<object>): Record<string, string>[] {
+  return [...rows].map((row) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key.replace(/^=/, ""), value])),
+  );
+}
 
 class RouterAPI {
+  /**
+   * Описание NAS на момент выдачи соединения: перезагрузка конфига (SIGHUP), которая убрала
+   * NAS или сменила его адрес, не ломает уже начатую операцию
+   */
+  private connectionConfigs = new WeakMap<RouterOSClient, NasConfig>();
+
   /**
    * Выполняет запрос к RouterOS API и возвращает набор результатов
    * @template T - Тип объектов в результате (например, RouterOSQueue)
@@ -11,27 +121,290 @@ class RouterAPI {
    * @returns Promise с Set объектов типа T, полученных из ответов "!re"
    */
   private async query<T>(nas: NasServer, command: string[]): Promise<Set<T>> {
-    const result: Set<T> = new Set();
-    const conn = await ConnectionManager.getConnection(nas);
+    return this.withConnection(nas, (conn) => this.execute<T>(conn, command));
+  }
+
+  /**
+   * Берёт соединение с NAS из пула, выполняет callback и возвращает соединение в пул
+   * Внутри callback можно запускать несколько команд параллельно (они мультиплексируются по .tag)
+   * @param nas - Адрес NAS устройства для подключения
+   * @param callback - Функция, использующая соединение
+   */
+  private async withConnection<R>(
+    nas: NasServer,
+    callback: (conn: RouterOSClient) => Promise<R>,
+  ): Promise<R> {
+    const config = getNasConfig(nas);
+    const conn = await ConnectionManager.acquire(nas);
+    this.connectionConfigs.set(conn, config);
     try {
-      for await (const [reply, attributes] of conn.sendCommand(command)) {
-        if (reply === "!re") {
-          result.add(attributes as T);
-        }
-        if (reply === "!trap") {
-          console.error(attributes["=message"]);
-        }
+      return await callback(conn);
+    } finally {
+      ConnectionManager.release(nas, conn);
+    }
+  }
+
+  /**
+   * Выполняет одну команду на уже открытом соединении
+   * @param conn - Соединение с RouterOS
+   * @param command - Массив слов команды
+   * @returns Promise с Set объектов типа T, полученных из ответов "!re"
+   * @throws RouterOSTrapError если роутер ответил "!trap" (ответ дочитывается до "!done")
+   * @throws RouterOSFatalError, ConnectionError при потере соединения
+   * @throws CommandTimeoutError если роутер не ответил за timeouts.command из конфига NAS
+   */
+  private async execute<T>(conn: RouterOSClient, command: string[]): Promise<Set<T>> {
+    const config = this.connectionConfigs.get(conn) ?? getNasConfig(conn.host);
+    const tagged = conn.command(command);
+    const timeout = config.timeouts.command;
+    let timer: NodeJS.Timeout | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        tagged.cancel().catch(() => {});
+        reject(new CommandTimeoutError(`no reply within ${timeout} ms`, conn.host, command));
+      }, timeout);
+    });
+    const collected = this.collect<T>(conn, command, tagged.replies);
+    // Если сработал таймаут, результат команды уже никому не нужен
+    collected.catch(() => {});
+    const labels = { nas: conn.host, command: command[0] };
+    const stopTimer = apiCommandDuration.startTimer(labels);
+    try {
+      const result = await Promise.race([collected, expired]);
+      apiCommandsTotal.inc({ ...labels, result: "ok" });
+      return result;
+    } catch (err) {
+      const result = err instanceof RouterOSTrapError ? "trap" : "error";
+      apiCommandsTotal.inc({ ...labels, result });
+      if (err instanceof RouterOSTrapError) {
+        trapsTotal.inc({ nas: conn.host, category: String(err.category ?? "none") });
       }
+      throw err;
     } finally {
-      await conn.close();
+      clearTimeout(timer);
+      stopTimer();
+    }
+  }
+
+  /**
+   * Собирает ответы команды: "!re" в набор результатов, первый "!trap" в ошибку
+   */
+  private async collect<T>(
+    conn: RouterOSClient,
+    command: string[],
+    replies: AsyncIterable<ApiReply>,
+  ): Promise<Set<T>> {
+    const result: Set<T> = new Set();
+    let trap: RouterOSTrapError | null = null;
+    for await (const [reply, attributes] of replies) {
+      if (reply === "!re") {
+        result.add(attributes as T);
+      }
+      if (reply === "!trap" && !trap) {
+        const category = attributes["=category"];
+        trap = new RouterOSTrapError(
+          attributes["=message"] ?? "unknown error",
+          conn.host,
+          command,
+          category === undefined ? undefined : Number(category),
+        );
+      }
     }
+    if (trap) throw trap;
     return result;
   }
 
+  /**
+   * Атрибуты simple queue для скорости с типом очереди из конфига NAS
+   */
+  private queueAttributes(nas: NasServer, shape: ShapeProfile): Record<string, string> {
+    return queueAttributes(shape, getNasConfig(nas).queueType);
+  }
+
+  /**
+   * Lease абонента: по адресу, а если по адресу нет — по MAC на том же сервере
+   */
+  private async findStaticLeases(
+    nas: NasServer,
+    { address, mac, server }: StaticLease,
+  ): Promise<RouterOSLease[]> {
+    const byAddress = await this.getLease(nas, address);
+    if (byAddress.size > 0) return [...byAddress];
+    const byMac = await this.query<RouterOSLease>(
+      nas,
+      print("/ip/dhcp-server/lease").where("mac-address", mac).where("server", server).build(),
+    );
+    return [...byMac];
+  }
+
+  /**
+   * Очереди абонента: с его именем или с target, равным одному из его адресов
+   */
+  private async findSubscriberQueues(
+    nas: NasServer,
+    { login, targets }: Subscriber,
+  ): Promise<Set<RouterOSQueue>> {
+    const command = print("/queue/simple").where("name", queueName(login));
+    for (const target of targets) {
+      command.where("target", target).or();
+    }
+    return this.query<RouterOSQueue>(nas, command.build());
+  }
+
+  /**
+   * Записывает в каждую очередь только атрибуты, отличающиеся от требуемых
+   */
+  private async updateQueueRecords(
+    nas: NasServer,
+    queues: Set<RouterOSQueue>,
+    wanted: Record<string, string>,
+  ): Promise<void> {
+    await this.withConnection(nas, (conn) =>
+      Promise.all(
+        [...queues].map((queue) => {
+          const changed = changedAttributes(queue, wanted);
+          if (Object.keys(changed).length === 0) return;
+          return this.execute(conn, set("/queue/simple").attrs(changed).id(queue["=.id"]).build());
+        }),
+      ),
+    );
+  }
+
+  private async removeQueueRecords(nas: NasServer, queues: Set<RouterOSQueue>): Promise<void> {
+    await this.withConnection(nas, (conn) =>
+      Promise.all(
+        [...queues].map((queue) =>
+          this.execute(conn, remove("/queue/simple").id(queue["=.id"]).build()),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Изменяет очереди как одну транзакцию:
+   * 1. читает очереди; если они уже в требуемом состоянии, ничего не записывает;
+   * 2. выполняет изменение и перечитывает очереди для проверки;
+   * 3. если команда не прошла или проверка не сошлась, возвращает очереди к прочитанным в
+   *    шаге 1 и пробрасывает ошибку — абонент не остаётся без очереди после remove без add
+   * @param find - Читает затронутые очереди (до изменения, для проверки и для отката)
+   * @param upToDate - Находятся ли очереди в требуемом состоянии
+   * @param apply - Само изменение; получает очереди, прочитанные в шаге 1
+   * @throws VerificationError если после изменения очереди не в требуемом состоянии
+   */
+  private async transactQueues(
+    nas: NasServer,
+    find: () => Promise<Set<RouterOSQueue>>,
+    upToDate: (queues: Set<RouterOSQueue>) => boolean,
+    apply: (queues: Set<RouterOSQueue>) => Promise<void>,
+  ): Promise<void> {
+    const original = await find();
+    if (upToDate(original)) return;
+    try {
+      await apply(original);
+      if (!upToDate(await find())) {
+        throw new VerificationError("queues do not match the requested state after update", nas);
+      }
+    } catch (err) {
+      await this.restoreQueues(nas, original, await find()).catch((rollbackError) =>
+        console.error(`[RouterAPI] Failed to roll back queues on ${nas}:`, rollbackError),
+      );
+      throw err;
+    }
+  }
+
+  /**
+   * Возвращает очереди к исходному состоянию: созданные удаляются, изменённые
+   * получают прежние атрибуты, удалённые создаются заново (с новым .id)
+   * @param original - Очереди до изменения
+   * @param current - Очереди сейчас
+   */
+  private async restoreQueues(
+    nas: NasServer,
+    original: Set<RouterOSQueue>,
+    current: Set<RouterOSQueue>,
+  ): Promise<void> {
+    const originalIds = new Set([...original].map((queue) => queue["=.id"]));
+    const currentById = new Map([...current].map((queue) => [queue["=.id"], queue]));
+    await this.removeQueueRecords(
+      nas,
+      new Set([...current].filter((queue) => !originalIds.has(queue["=.id"]))),
+    );
+    await this.withConnection(nas, (conn) =>
+      Promise.all(
+        [...original].map((queue) => {
+          const attributes = writableAttributes(queue);
+          const existing = currentById.get(queue["=.id"]);
+          if (!existing) {
+            return this.execute(conn, add("/queue/simple").attrs(attributes).build());
+          }
+          const previous = writableAttributes(existing);
+          const changed = Object.fromEntries(
+            Object.entries(attributes).filter(([key, value]) => previous[key] !== value),
+          );
+          if (Object.keys(changed).length === 0) return;
+          return this.execute(conn, set("/queue/simple").attrs(changed).id(queue["=.id"]).build());
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Состояние очередей абонента для журнала аудита
+   */
+  private async subscriberQueueState(nas: NasServer, subscriber: Subscriber) {
+    return toAuditState(await this.findSubscriberQueues(nas, subscriber));
+  }
+
+  /**
+   * Состояние очередей target для журнала аудита
+   */
+  private async queueState(nas: NasServer, target: string) {
+    return toAuditState(await this.getQueues(nas, target));
+  }
+
+  /**
+   * Состояние DHCP lease для журнала аудита
+   */
+  private async leaseState(nas: NasServer, target: string) {
+    return toAuditState(await this.getLease(nas, target));
+  }
+
+  /**
+   * Состояние DHCPv6 binding для журнала аудита
+   */
+  private async bindingState(nas: NasServer, prefix: string) {
+    return toAuditState(await this.getBindings(nas, prefix));
+  }
+
+  /**
+   * Состояние активных сессий для журнала аудита
+   */
+  private async sessionState(nas: NasServer, kind: SessionKind, query: SessionQuery) {
+    return toAuditState(await this.getActiveSessions(nas, kind, query));
+  }
+
+  /**
+   * Состояние записей address-list для журнала аудита
+   */
+  private async addressListState(nas: NasServer, list: string, address: string) {
+    return toAuditState(await this.getAddressList(nas, list, address));
+  }
+
+  /**
+   * Выполняет произвольную команду RouterOS API (для rosctl и отладки)
+   * @param nas - Адрес NAS устройства
+   * @param command - Слова команды, например ["/ip/address/print", "?interface=ether1"]
+   * @returns Promise с Set атрибутов из ответов "!re"
+   * @throws RouterOSTrapError если роутер ответил "!trap"
+   */
+  async raw(nas: NasServer, command: string[]): Promise<Set<Record<string, string>>> {
+    return this.query<Record<string, string>>(nas, command);
+  }
+
   /**
    * Получает список очередей (queues) с RouterOS устройства
    * @param nas - Адрес NAS устройства
-   * @param target - Опциональный IP адрес для фильтрации (будет добавлен /32)
+   * @param target - Опциональный IP адрес (будет добавлен /32 или /128) или сеть для фильтрации
    * @returns Promise с Set объектов RouterOSQueue
    * @example
    * // Получить все очереди
@@ -40,78 +413,225 @@ class RouterAPI {
    * await getQueues('192.168.1.1', '10.0.0.5')
    */
   async getQueues(nas: NasServer, target?: string): Promise<Set<RouterOSQueue>> {
-    const command = ["/queue/simple/print"];
+    const command = print("/queue/simple");
     if (typeof target === "string") {
-      command.push(`?target=${target}/32`);
+      command.where("target", toTarget(target));
     }
-    const reply = await this.query<RouterOSQueue>(nas, command);
+    const reply = await this.query<RouterOSQueue>(nas, command.build());
     return reply;
   }
 
   /**
    * Изменяет скорость для всех очередей указанного target
+   * Записываются только атрибуты, значения которых на роутере отличаются от требуемых;
+   * при ошибке очереди возвращаются к прежней скорости (см. transactQueues)
    * @param nas - Адрес NAS устройства
-   * @param target - IP адрес цели (будет добавлен /32 при поиске)
-   * @param speed - Новая скорость в мегабитах (будет применена для upload/download)
+   * @param target - IP адрес цели (будет добавлен /32 или /128 при поиске) или сеть
+   * @param shape - Новая скорость абонента
    * @returns Promise<void>
    */
-  async editQueuesSpeed(nas: NasServer, target: string, speed: number): Promise<void> {
-    const queues = await this.getQueues(nas, target);
-    for (const queue of queues) {
-      await this.query(nas, [
-        "/queue/simple/set",
-        `=max-limit=${speed}M/${speed}M`,
-        `=.id=${queue["=.id"]}`,
-      ]);
-    }
+  async editQueues(nas: NasServer, target: string, shape: ShapeProfile): Promise<void> {
+    const params = { shape: formatRateLimit(shape) };
+    const state = () => this.queueState(nas, target);
+    const wanted = this.queueAttributes(nas, shape);
+    await AuditLog.record("editQueues", nas, target, params, state, () =>
+      this.transactQueues(
+        nas,
+        () => this.getQueues(nas, target),
+        (queues) => queuesUpToDate(queues, wanted),
+        (queues) => this.updateQueueRecords(nas, queues, wanted),
+      ),
+    );
   }
 
   /**
    * Удаляет все очереди для указанного target
    * @param nas - Адрес NAS устройства
-   * @param target - IP адрес цели (будет добавлен /32 при поиске)
+   * @param target - IP адрес цели (будет добавлен /32 или /128 при поиске) или сеть
    * @returns Promise<void>
    */
   async removeQueues(nas: NasServer, target: string): Promise<void> {
-    const queues = await this.getQueues(nas, target);
-    for (const queue of queues) {
-      await this.query(nas, ["/queue/simple/remove", `=.id=${queue["=.id"]}`]);
-    }
+    const state = () => this.queueState(nas, target);
+    await AuditLog.record("removeQueues", nas, target, undefined, state, async () => {
+      await this.removeQueueRecords(nas, await this.getQueues(nas, target));
+    });
   }
 
   /**
    * Добавляет очередь для указанного target
    * @param nas - Адрес NAS устройства
-   * @param target - IP адрес для очереди
-   * @param speed -  Скорость в мегабитах (будет применена для upload/download)
+   * @param target - IP адрес (IPv4 или IPv6) или сеть для очереди
+   * @param shape - Скорость абонента
    * @returns Promise<void>
    */
-  async addQueue(nas: NasServer, target: string, speed: number): Promise<void> {
-    await this.query(nas, [
-      "/queue/simple/add",
-      `=target=${target}/32`,
-      `=max-limit=${speed}M/${speed}M`,
-    ]);
+  async addQueue(nas: NasServer, target: string, shape: ShapeProfile): Promise<void> {
+    const params = { shape: formatRateLimit(shape) };
+    const state = () => this.queueState(nas, target);
+    await AuditLog.record("addQueue", nas, target, params, state, () =>
+      this.query(
+        nas,
+        add("/queue/simple")
+          .attr("target", toTarget(target))
+          .attrs(this.queueAttributes(nas, shape))
+          .build(),
+      ),
+    );
   }
 
   /**
    * Устанавливает очередь для target: редактирует существующую или создает новую
    * Если найдено более одной очереди - удаляет все и создает одну новую
+   * Изменение атомарно: если очередь уже с такой скоростью, ничего не записывается, а при
+   * ошибке или несовпадении после записи прежние очереди восстанавливаются
    * @param nas - Адрес NAS устройства
    * @param target - IP адрес цели
-   * @param speed - Скорость в мегабитах
-   * @throws Error при проблемах с API
-   */
-  async setQueue(nas: NasServer, target: string, speed: number): Promise<void> {
-    const queues = await this.getQueues(nas, target);
-    if (queues.size === 1) {
-      await this.editQueuesSpeed(nas, target, speed);
-      return;
+   * @param shape - Скорость абонента; тип очереди берётся из queueType NAS
+   * @throws RouterOSError при проблемах с API
+   * @throws VerificationError если очередь после записи не совпала с требуемой
+   */
+  async setQueue(nas: NasServer, target: string, shape: ShapeProfile): Promise<void> {
+    const params = { shape: formatRateLimit(shape) };
+    const state = () => this.queueState(nas, target);
+    const wanted = this.queueAttributes(nas, shape);
+    await AuditLog.record("setQueue", nas, target, params, state, () =>
+      this.transactQueues(
+        nas,
+        () => this.getQueues(nas, target),
+        (queues) => queues.size === 1 && queuesUpToDate(queues, wanted),
+        async (queues) => {
+          if (queues.size === 1) {
+            await this.updateQueueRecords(nas, queues, wanted);
+            return;
+          }
+          await this.removeQueueRecords(nas, queues);
+          await this.query(
+            nas,
+            add("/queue/simple").attr("target", toTarget(target)).attrs(wanted).build(),
+          );
+        },
+      ),
+    );
+  }
+
+  /**
+   * Получает очереди абонента по логину
+   * @param nas - Адрес NAS устройства
+   * @param login - Логин абонента
+   * @returns Promise с Set объектов RouterOSQueue (обычно одна очередь)
+   */
+  async getSubscriberQueues(nas: NasServer, login: string): Promise<Set<RouterOSQueue>> {
+    return this.query<RouterOSQueue>(
+      nas,
+      print("/queue/simple").where("name", queueName(login)).build(),
+    );
+  }
+
+  /**
+   * Устанавливает очередь абонента: одна очередь с именем по логину на все его адреса
+   * Очередь, созданная раньше по адресу (setQueue), переименовывается в очередь абонента;
+   * если очередей несколько, все удаляются и создаётся одна
+   * Изменение атомарно, как в setQueue
+   * @param nas - Адрес NAS устройства
+   * @param subscriber - Логин, сессия и адреса абонента
+   * @param shape - Скорость абонента
+   * @throws RequestError если у абонента нет адресов
+   * @throws VerificationError если очередь после записи не совпала с требуемой
+   */
+  async setSubscriberQueue(
+    nas: NasServer,
+    subscriber: Subscriber,
+    shape: ShapeProfile,
+  ): Promise<void> {
+    if (subscriber.targets.length === 0) {
+      throw new RequestError(`No addresses for subscriber ${subscriber.login}`);
+    }
+    const target = subscriber.targets.join(",");
+    const params = { login: subscriber.login, shape: formatRateLimit(shape) };
+    const state = () => this.subscriberQueueState(nas, subscriber);
+    const wanted = {
+      name: queueName(subscriber.login),
+      target,
+      comment: queueComment(subscriber),
+      ...this.queueAttributes(nas, shape),
+    };
+    await AuditLog.record("setSubscriberQueue", nas, target, params, state, () =>
+      this.transactQueues(
+        nas,
+        () => this.findSubscriberQueues(nas, subscriber),
+        (queues) => queues.size === 1 && queuesUpToDate(queues, wanted),
+        async (queues) => {
+          if (queues.size === 1) {
+            await this.updateQueueRecords(nas, queues, wanted);
+            return;
+          }
+          await this.removeQueueRecords(nas, queues);
+          await this.query(nas, add("/queue/simple").attrs(wanted).build());
+        },
+      ),
+    );
+  }
+
+  /**
+   * Удаляет очереди абонента: по логину и по каждому из его адресов
+   * @param nas - Адрес NAS устройства
+   * @param subscriber - Логин и адреса абонента
+   */
+  async removeSubscriberQueues(nas: NasServer, subscriber: Subscriber): Promise<void> {
+    const target = subscriber.targets.join(",");
+    const params = { login: subscriber.login };
+    const state = () => this.subscriberQueueState(nas, subscriber);
+    await AuditLog.record("removeSubscriberQueues", nas, target, params, state, async () => {
+      await this.removeQueueRecords(nas, await this.findSubscriberQueues(nas, subscriber));
+    });
+  }
+
+  /**
+   * Находит абонента, в очередь которого ("sub-<логин>") входит адрес
+   * @param nas - Адрес NAS устройства
+   * @param address - IP адрес или сеть абонента
+   * @param login - Искать только очередь этого абонента
+   * @returns Логин, сессия и адреса из очереди или undefined, если такой очереди нет
+   */
+  async findSubscriber(
+    nas: NasServer,
+    address: string,
+    login?: string,
+  ): Promise<Subscriber | undefined> {
+    // target очереди абонента — список адресов, запрос "?target=" его не найдёт
+    const queues = login ? this.getSubscriberQueues(nas, login) : this.getQueues(nas);
+    for (const queue of await queues) {
+      const subscriber = subscriberOfQueue(queue["=name"], queue["=target"], queue["=comment"]);
+      if (subscriber && (login || subscriber.targets.includes(toTarget(address)))) {
+        return subscriber;
+      }
     }
-    if (queues.size > 1) {
-      await this.removeQueues(nas, target);
+    return undefined;
+  }
+
+  /**
+   * Получает очереди, ограничивающие адрес: очередь абонента, в которую он входит,
+   * и очереди по его адресам; без очереди абонента — очереди с target адреса
+   * @param nas - Адрес NAS устройства
+   * @param address - IP адрес или сеть абонента
+   */
+  async getAddressQueues(nas: NasServer, address: string): Promise<Set<RouterOSQueue>> {
+    const subscriber = await this.findSubscriber(nas, address);
+    if (subscriber) return this.findSubscriberQueues(nas, subscriber);
+    return this.getQueues(nas, address);
+  }
+
+  /**
+   * Удаляет очереди, ограничивающие адрес: очередь абонента целиком или очереди с target адреса
+   * @param nas - Адрес NAS устройства
+   * @param address - IP адрес или сеть абонента
+   */
+  async removeAddressQueues(nas: NasServer, address: string): Promise<void> {
+    const subscriber = await this.findSubscriber(nas, address);
+    if (subscriber) {
+      await this.removeSubscriberQueues(nas, subscriber);
+    } else {
+      await this.removeQueues(nas, address);
     }
-    await this.addQueue(nas, target, speed);
   }
 
   /**
@@ -123,10 +643,10 @@ class RouterAPI {
    * const leases = await getLease('192.168.1.1', '10.0.0.5')
    */
   async getLease(nas: NasServer, target: string): Promise<Set<RouterOSLease>> {
-    const leases = await this.query<RouterOSLease>(nas, [
-      "/ip/dhcp-server/lease/print",
-      `?address=${target}`,
-    ]);
+    const leases = await this.query<RouterOSLease>(
+      nas,
+      print("/ip/dhcp-server/lease").where("address", target).build(),
+    );
     return leases;
   }
 
@@ -137,13 +657,328 @@ class RouterAPI {
    * @returns Promise<void>
    */
   async removeLease(nas: NasServer, target: string): Promise<void> {
-    const leases = await this.getLease(nas, target);
-    for (const lease of leases) {
-      await this.query<RouterOSLease>(nas, [
-        "/ip/dhcp-server/lease/remove",
-        `=.id=${lease["=.id"]}`,
-      ]);
+    const state = () => this.leaseState(nas, target);
+    await AuditLog.record("removeLease", nas, target, undefined, state, async () => {
+      const leases = await this.getLease(nas, target);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          [...leases].map((lease) =>
+            this.execute(conn, remove("/ip/dhcp-server/lease").id(lease["=.id"]).build()),
+          ),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Создаёт или обновляет статический DHCP lease абонента
+   * Lease ищется по адресу, затем по MAC на том же сервере; динамический lease делается
+   * статическим; изменяются только отличающиеся свойства, найденные дубликаты удаляются
+   * @param nas - Адрес NAS устройства
+   * @param lease - Адрес, MAC, сервер и прочие свойства lease
+   * @returns Promise<void>
+   */
+  async setStaticLease(nas: NasServer, lease: StaticLease): Promise<void> {
+    const path = "/ip/dhcp-server/lease";
+    const params = { mac: lease.mac, server: lease.server, login: lease.login };
+    const state = () => this.leaseState(nas, lease.address);
+    await AuditLog.record("setStaticLease", nas, lease.address, params, state, async () => {
+      const [current, ...duplicates] = await this.findStaticLeases(nas, lease);
+      const wanted = leaseAttributes(lease);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          duplicates.map((duplicate) =>
+            this.execute(conn, remove(path).id(duplicate["=.id"]).build()),
+          ),
+        ),
+      );
+      if (!current) {
+        await this.query(nas, add(path).attrs(wanted).build());
+        return;
+      }
+      if (isDynamic(current)) {
+        await this.query(nas, makeStatic(path).id(current["=.id"]).build());
+      }
+      const changed = leaseChanges(current, wanted);
+      if (Object.keys(changed).length > 0) {
+        await this.query(nas, set(path).attrs(changed).id(current["=.id"]).build());
+      }
+    });
+  }
+
+  /**
+   * Делает динамические DHCP lease для адреса статическими
+   * @param nas - Адрес NAS устройства
+   * @param target - IP адрес абонента
+   * @returns Количество lease, ставших статическими
+   */
+  async makeStaticLease(nas: NasServer, target: string): Promise<number> {
+    const state = () => this.leaseState(nas, target);
+    return AuditLog.record("makeStaticLease", nas, target, undefined, state, async () => {
+      const leases = [...(await this.getLease(nas, target))].filter(isDynamic);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          leases.map((lease) =>
+            this.execute(conn, makeStatic("/ip/dhcp-server/lease").id(lease["=.id"]).build()),
+          ),
+        ),
+      );
+      return leases.length;
+    });
+  }
+
+  /**
+   * Включает или отключает DHCP lease для адреса
+   * Отключённый lease не продлевается: абонент теряет адрес при следующем обновлении аренды
+   * @param nas - Адрес NAS устройства
+   * @param target - IP адрес абонента
+   * @param enabled - true — включить, false — отключить
+   * @returns Promise<void>
+   */
+  async setLeaseEnabled(nas: NasServer, target: string, enabled: boolean): Promise<void> {
+    const operation = enabled ? "enableLease" : "disableLease";
+    const build = enabled ? enable : disable;
+    const state = () => this.leaseState(nas, target);
+    await AuditLog.record(operation, nas, target, undefined, state, async () => {
+      const leases = await this.getLease(nas, target);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          [...leases].map((lease) =>
+            this.execute(conn, build("/ip/dhcp-server/lease").id(lease["=.id"]).build()),
+          ),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Получает DHCPv6 binding записи для адреса или делегированного префикса
+   * @param nas - Адрес NAS устройства
+   * @param prefix - IPv6 адрес (будет добавлен /128) или префикс, например "2001:db8:100::/56"
+   * @returns Promise с Set объектов RouterOSIPv6Binding
+   */
+  async getBindings(nas: NasServer, prefix: string): Promise<Set<RouterOSIPv6Binding>> {
+    return this.query<RouterOSIPv6Binding>(
+      nas,
+      print("/ipv6/dhcp-server/binding").where("address", toTarget(prefix)).build(),
+    );
+  }
+
+  /**
+   * Удаляет DHCPv6 binding записи для адреса или делегированного префикса
+   * @param nas - Адрес NAS устройства
+   * @param prefix - IPv6 адрес или префикс
+   * @returns Promise<void>
+   */
+  async removeBindings(nas: NasServer, prefix: string): Promise<void> {
+    const state = () => this.bindingState(nas, prefix);
+    await AuditLog.record("removeBindings", nas, toTarget(prefix), undefined, state, async () => {
+      const bindings = await this.getBindings(nas, prefix);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          [...bindings].map((binding) =>
+            this.execute(conn, remove("/ipv6/dhcp-server/binding").id(binding["=.id"]).build()),
+          ),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Получает активные сессии PPP или hotspot
+   * @param nas - Адрес NAS устройства
+   * @param kind - "ppp" (/ppp/active) или "hotspot" (/ip/hotspot/active)
+   * @param query - Логин, IP и/или идентификатор сессии; условия объединяются через И
+   * @returns Promise с Set объектов RouterOSPppActive или RouterOSHotspotActive
+   * @throws RequestError если в query нет ни одного условия
+   */
+  async getActiveSessions(
+    nas: NasServer,
+    kind: SessionKind,
+    query: SessionQuery,
+  ): Promise<Set<RouterOSActiveSession>> {
+    const { login, ip, session } = requireCriteria(query);
+    const table = SESSION_TABLES[kind];
+    const command = print(table.path);
+    if (login) command.where(table.login, login);
+    if (ip) command.where("address", ip);
+    if (session) {
+      const [first, ...rest] = sessionIdVariants(session);
+      command.where("session-id", first);
+      for (const variant of rest) {
+        command.where("session-id", variant).or();
+      }
+    }
+    return this.query<RouterOSActiveSession>(nas, command.build());
+  }
+
+  /**
+   * Разрывает активные сессии PPP или hotspot (абонент переподключится заново)
+   * @param nas - Адрес NAS устройства
+   * @param kind - "ppp" или "hotspot"
+   * @param query - Логин, IP и/или идентификатор сессии
+   * @returns Количество разорванных сессий
+   */
+  async removeActiveSessions(
+    nas: NasServer,
+    kind: SessionKind,
+    query: SessionQuery,
+  ): Promise<number> {
+    const params = { kind, query: describeQuery(requireCriteria(query)) };
+    const target = query.ip ?? query.login ?? query.session ?? "";
+    const state = () => this.sessionState(nas, kind, query);
+    return AuditLog.record("removeActiveSessions", nas, target, params, state, async () => {
+      const sessions = await this.getActiveSessions(nas, kind, query);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          [...sessions].map((entry) =>
+            this.execute(conn, remove(SESSION_TABLES[kind].path).id(entry["=.id"]).build()),
+          ),
+        ),
+      );
+      return sessions.size;
+    });
+  }
+
+  /**
+   * Находит активную сессию по идентификатору сессии из биллинга (--session)
+   * @param nas - Адрес NAS устройства
+   * @param session - Acct-Session-Id, например "81800004"
+   * @returns Вид и запись сессии или undefined, если такой сессии на NAS нет
+   */
+  async findSession(
+    nas: NasServer,
+    session: string,
+  ): Promise<{ kind: SessionKind; entry: RouterOSActiveSession } | undefined> {
+    for (const kind of SESSION_KINDS) {
+      const [entry] = await this.getActiveSessions(nas, kind, { session });
+      if (entry) return { kind, entry };
     }
+    return undefined;
+  }
+
+  /**
+   * Получает записи address-list
+   * @param nas - Адрес NAS устройства
+   * @param list - Имя списка, например "blocked"
+   * @param address - Опциональный IP адрес для фильтрации
+   * @returns Promise с Set объектов RouterOSAddressListEntry
+   */
+  async getAddressList(
+    nas: NasServer,
+    list: string,
+    address?: string,
+  ): Promise<Set<RouterOSAddressListEntry>> {
+    const command = print("/ip/firewall/address-list").where("list", list);
+    if (typeof address === "string") {
+      command.where("address", address);
+    }
+    return this.query<RouterOSAddressListEntry>(nas, command.build());
+  }
+
+  /**
+   * Проверяет, есть ли IP адрес в address-list
+   * @param nas - Адрес NAS устройства
+   * @param list - Имя списка
+   * @param address - IP адрес
+   */
+  async isInAddressList(nas: NasServer, list: string, address: string): Promise<boolean> {
+    const entries = await this.getAddressList(nas, list, address);
+    return entries.size > 0;
+  }
+
+  /**
+   * Добавляет IP адрес в address-list; если адрес уже в списке, обновляет комментарий и timeout
+   * @param nas - Адрес NAS устройства
+   * @param list - Имя списка
+   * @param address - IP адрес
+   * @param options.comment - Комментарий записи (например, логин абонента)
+   * @param options.timeout - Время жизни записи в формате RouterOS ("1d", "12h"),
+   *                          без него запись постоянная
+   * @returns Promise<void>
+   */
+  async addToAddressList(
+    nas: NasServer,
+    list: string,
+    address: string,
+    options: { comment?: string; timeout?: string } = {},
+  ): Promise<void> {
+    const params = { comment: options.comment, timeout: options.timeout };
+    const audit = { list, ...params };
+    const state = () => this.addressListState(nas, list, address);
+    await AuditLog.record("addToAddressList", nas, address, audit, state, async () => {
+      const entries = await this.getAddressList(nas, list, address);
+      // RouterOS не даёт добавить тот же адрес повторно ('!trap' "already have such entry")
+      if (entries.size > 0) {
+        if (options.comment === undefined && options.timeout === undefined) return;
+        await this.withConnection(nas, (conn) =>
+          Promise.all(
+            [...entries].map((entry) =>
+              this.execute(
+                conn,
+                set("/ip/firewall/address-list").attrs(params).id(entry["=.id"]).build(),
+              ),
+            ),
+          ),
+        );
+        return;
+      }
+      await this.query(
+        nas,
+        add("/ip/firewall/address-list").attrs({ list, address, ...params }).build(),
+      );
+    });
+  }
+
+  /**
+   * Удаляет IP адрес из address-list
+   * @param nas - Адрес NAS устройства
+   * @param list - Имя списка
+   * @param address - IP адрес
+   * @returns Promise<void>
+   */
+  async removeFromAddressList(nas: NasServer, list: string, address: string): Promise<void> {
+    const state = () => this.addressListState(nas, list, address);
+    await AuditLog.record("removeFromAddressList", nas, address, { list }, state, async () => {
+      const entries = await this.getAddressList(nas, list, address);
+      await this.withConnection(nas, (conn) =>
+        Promise.all(
+          [...entries].map((entry) =>
+            this.execute(conn, remove("/ip/firewall/address-list").id(entry["=.id"]).build()),
+          ),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Подписывается на изменения по долгоживущей команде RouterOS
+   * @template T - Тип записей в событиях "update"
+   * @param nas - Адрес NAS устройства
+   * @param command - Команда, например ["/interface/monitor-traffic", "=interface=ether1"]
+   * @returns Subscription — асинхронный итератор событий; остановить через close()
+   * @example
+   * const sub = RouterAPI.subscribe(nas, ["/ip/dhcp-server/lease/listen"]);
+   * for await (const event of sub) { ... }
+   */
+  subscribe<T>(nas: NasServer, command: string[]): Subscription<T> {
+    return new Subscription<T>(nas, command);
+  }
+
+  /**
+   * Подписывается на изменения DHCP lease записей (/ip/dhcp-server/lease/listen)
+   * @param nas - Адрес NAS устройства
+   */
+  listenLeases(nas: NasServer): Subscription<RouterOSLease> {
+    return this.subscribe<RouterOSLease>(nas, ["/ip/dhcp-server/lease/listen"]);
+  }
+
+  /**
+   * Подписывается на изменения очередей (/queue/simple/listen)
+   * @param nas - Адрес NAS устройства
+   */
+  listenQueues(nas: NasServer): Subscription<RouterOSQueue> {
+    return this.subscribe<RouterOSQueue>(nas, ["/queue/simple/listen"]);
   }
 }
 
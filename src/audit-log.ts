@@ -0,0 +1,204 @@
+// audit-log.ts
+// Журнал изменений на NAS в формате JSON Lines (logs/audit.jsonl; каталог задаёт LOG_DIR).
+//
+// - Каждая изменяющая операция RouterAPI (очереди, lease, address-list) пишет одну запись:
+//   кто и по какому запросу её вызвал, NAS, IP, состояние до и после, результат.
+// - Контекст вызова (запрос биллинга, логин, источник) передаётся через AsyncLocalStorage:
+//   вызывающий оборачивает работу в withAuditContext(), RouterAPI подхватывает контекст сам.
+// - Операции RouterAPI не вызывают друг друга; если операция всё же вызвана внутри другой
+//   записываемой операции, отдельно она не пишется: состояние до и после уже есть у внешней.
+// - Файл ротируется по размеру: audit.jsonl -> audit.jsonl.1 -> ... -> audit.jsonl.<maxFiles>.
+
+import * as fs from "fs";
+import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { NasServer } from "./config-preloader";
+
+const LOG_DIR = process.env.LOG_DIR ?? path.join(__dirname, "..", "logs");
+const LOG_FILE = path.join(LOG_DIR, "audit.jsonl");
+
+/**
+ * Параметры ротации
+ * maxSize - размер файла в байтах, после которого он ротируется
+ * maxFiles - сколько ротированных файлов хранить
+ */
+const ROTATION_OPTIONS = {
+  maxSize: 10 * 1024 * 1024,
+  maxFiles: 5,
+};
+
+/**
+ * Кто вызвал изменение
+ * source - "billing" (команда из сокета), "admin" (HTTP API), "rosctl"
+ * request - запрос биллинга или HTTP запрос (без паролей)
+ * login - логин абонента, если известен
+ * actor - адрес клиента HTTP API или пользователь ОС для rosctl
+ */
+export interface AuditContext {
+  source: "billing" | "admin" | "rosctl";
+  request?: unknown;
+  login?: string;
+  actor?: string;
+}
+
+/**
+ * Запись журнала
+ * operation - метод RouterAPI: "setQueue", "removeLease", ...
+ * target - IP абонента или адреса очереди абонента через запятую ("10.0.0.5/32,10.1.0.0/29");
+ *          для разрыва сессии без IP — логин или идентификатор сессии
+ * before/after - записи RouterOS до и после операции (отсутствуют, если прочитать не удалось)
+ */
+export interface AuditEntry {
+  time: string;
+  operation: string;
+  nas: NasServer;
+  target: string;
+  params?: Record<string, unknown>;
+  context?: AuditContext;
+  before: unknown;
+  after?: unknown;
+  outcome: "ok" | "error";
+  error?: string;
+}
+
+/**
+ * Отбор записей при чтении журнала
+ */
+export interface AuditQuery {
+  ip?: string;
+  login?: string;
+  limit?: number;
+}
+
+/**
+ * Относится ли запись к адресу: target — сам адрес или список "10.0.0.5/32,10.1.0.0/29"
+ */
+function matchesTarget(target: string, ip: string): boolean {
+  return target.split(",").some((item) => item === ip || item.startsWith(`${ip}/`));
+}
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+const nestedStorage = new AsyncLocalStorage<boolean>();
+
+/**
+ * Выполняет callback с контекстом аудита: все изменения на NAS внутри него будут им помечены
+ */
+export function withAuditContext<R>(
+  context: AuditContext,
+  callback: () => Promise<R>,
+): Promise<R> {
+  return contextStorage.run(context, callback);
+}
+
+class AuditLog {
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Выполняет изменяющую операцию и записывает её в журнал
+   * @param operation - Имя операции для журнала
+   * @param nas - Адрес NAS устройства
+   * @param target - IP абонента, адреса очереди абонента, логин или идентификатор сессии
+   * @param params - Параметры операции (скорость, список и т.д.)
+   * @param snapshot - Читает текущее состояние затронутых записей
+   * @param callback - Сама операция
+   * @returns Результат callback; его ошибка пробрасывается после записи в журнал
+   */
+  async record<R>(
+    operation: string,
+    nas: NasServer,
+    target: string,
+    params: Record<string, unknown> | undefined,
+    snapshot: () => Promise<unknown>,
+    callback: () => Promise<R>,
+  ): Promise<R> {
+    if (nestedStorage.getStore()) return callback();
+
+    return nestedStorage.run(true, async () => {
+      const before = await snapshot().catch(() => undefined);
+      const entry: AuditEntry = {
+        time: new Date().toISOString(),
+        operation,
+        nas,
+        target,
+        params,
+        context: contextStorage.getStore(),
+        before,
+        outcome: "ok",
+      };
+      try {
+        return await callback();
+      } catch (err) {
+        entry.outcome = "error";
+        entry.error = String(err);
+        throw err;
+      } finally {
+        entry.after = await snapshot().catch(() => undefined);
+        this.write(entry);
+      }
+    });
+  }
+
+  /**
+   * Читает журнал (включая ротированные файлы) от старых записей к новым
+   * @param query - Отбор по IP и/или логину; limit — сколько последних записей вернуть
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writing;
+    const files = [];
+    for (let i = ROTATION_OPTIONS.maxFiles; i >= 1; i--) files.push(`${LOG_FILE}.${i}`);
+    files.push(LOG_FILE);
+
+    const entries: AuditEntry[] = [];
+    for (const file of files) {
+      let content: string;
+      try {
+        content = await fs.promises.readFile(file, "utf-8");
+      } catch {
+        continue;
+      }
+      for (const [index, line] of content.split("\n").entries()) {
+        if (line.trim() === "") continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // Недописанная строка (сбой во время записи) не должна ломать чтение всего журнала
+          console.warn(`[Audit] Skipping malformed line ${index + 1} of ${file}`);
+          continue;
+        }
+        if (query.ip !== undefined && !matchesTarget(entry.target, query.ip)) continue;
+        if (query.login !== undefined && entry.context?.login !== query.login) continue;
+        entries.push(entry);
+      }
+    }
+    return query.limit === undefined ? entries : entries.slice(-query.limit);
+  }
+
+  /**
+   * Дописывает запись; записи выполняются последовательно, ошибка записи не ломает операцию
+   */
+  private write(entry: AuditEntry) {
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(LOG_DIR, { recursive: true });
+        await this.rotate();
+        await fs.promises.appendFile(LOG_FILE, JSON.stringify(entry) + "\n");
+      })
+      .catch((err) => console.error("[Audit] Failed to write entry:", err));
+  }
+
+  private async rotate() {
+    const size = await fs.promises
+      .stat(LOG_FILE)
+      .then((stat) => stat.size)
+      .catch(() => 0);
+    if (size < ROTATION_OPTIONS.maxSize) return;
+
+    for (let i = ROTATION_OPTIONS.maxFiles - 1; i >= 1; i--) {
+      await fs.promises.rename(`${LOG_FILE}.${i}`, `${LOG_FILE}.${i + 1}`).catch(() => {});
+    }
+    await fs.promises.rename(LOG_FILE, `${LOG_FILE}.1`);
+  }
+}
+
+export default new AuditLog();
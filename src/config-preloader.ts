@@ -1,45 +1,594 @@
 import * as fs from "fs";
 import * as path from "path";
+import { ConfigError, UnknownNasError } from "./errors";
+import { TlsOptions } from "./ros-openai";
+import { DEFAULT_QUEUE_TYPE } from "./shape";
+import { SESSION_KINDS, SessionKind } from "./sessions";
 
-const NAS_SERVERS = ["10.77.0.5", "10.77.0.6"] as const;
-export type NasServer = (typeof NAS_SERVERS)[number];
+/**
+ * Адрес NAS — ключ раздела "servers" в конфиге
+ */
+export type NasServer = string;
 
 const CONFIG_FILE = "nas-config.json";
-const configPath = path.join(__dirname, "..", CONFIG_FILE);
+// Переменная окружения NAS_CONFIG задаёт другой файл (например, в тестах)
+const configPath = process.env.NAS_CONFIG ?? path.join(__dirname, "..", CONFIG_FILE);
+
+/**
+ * Способ управления скоростью и сессиями на NAS:
+ *  - "api" — через RouterOS API (RouterAPI.setQueue и т.д.)
+ *  - "coa" — через RADIUS CoA/Disconnect-Request (RFC 5176); RouterOS API к такому NAS
+ *    не используется: lease, DHCPv6 binding и address-list на нём не меняются
+ */
+export type NasControlMode = "api" | "coa";
+
+/**
+ * Параметры RADIUS CoA для NAS
+ * secret - общий секрет RADIUS клиента на NAS
+ * port - порт CoA (по умолчанию 3799)
+ * timeout - таймаут ожидания ответа одной попытки в мс
+ * retries - количество повторных отправок при отсутствии ответа
+ */
+export interface NasCoAConfig {
+  secret: string;
+  port?: number;
+  timeout?: number;
+  retries?: number;
+}
+
+/**
+ * Статические DHCP lease абонентов IPoE (раздел "dhcp" NAS)
+ * server - имя DHCP сервера на NAS, к которому привязываются lease
+ * leaseTime - время аренды в формате RouterOS ("1d", "12h"), по умолчанию — из настроек сервера
+ * addressLists - address-list, в которые RouterOS добавляет адрес абонента, пока lease активен
+ */
+export interface NasDhcpConfig {
+  server: string;
+  leaseTime?: string;
+  addressLists: string[];
+}
+
+/**
+ * Таймауты работы с NAS в мс
+ * connect - установка TCP/TLS соединения
+ * command - выполнение одной команды API
+ */
+export interface NasTimeouts {
+  connect: number;
+  command: number;
+}
+
+/**
+ * Описание одного NAS после проверки и подстановки значений по умолчанию
+ * address - адрес NAS (ключ в "servers")
+ * port - порт API (8728, для TLS 8729)
+ * tls - параметры api-ssl или false для обычного TCP (пароль API тогда передаётся открытым текстом)
+ * aliases - альтернативные имена, по которым NAS можно указать в --nas
+ * enabled - выключенный NAS остаётся в конфиге, но команды к нему отклоняются
+ * queueType - тип очереди simple queue "upload/download",
+ *             например "pcq-upload-default/pcq-download-default" (по умолчанию default-small)
+ * sessions - где у NAS активные сессии абонентов: ["ppp"], ["hotspot"] или оба;
+ *            на stop и off они разрываются через API. По умолчанию [] (IPoE)
+ * dhcp - если задан, lease абонентов статические: создаются на create/edit, включаются
+ *        и отключаются на on/off и удаляются только на delete
+ */
+export interface NasConfig {
+  address: NasServer;
+  user: string;
+  password: string;
+  port: number;
+  tls: TlsOptions | false;
+  timeouts: NasTimeouts;
+  aliases: string[];
+  enabled: boolean;
+  mode: NasControlMode;
+  coa?: NasCoAConfig;
+  queueType: string;
+  sessions: SessionKind[];
+  dhcp?: NasDhcpConfig;
+}
+
+/**
+ * HTTP listener метрик Prometheus (раздел "metrics")
+ * host - адрес, на котором слушать (по умолчанию 127.0.0.1)
+ * port - порт listener'а
+ */
+export interface MetricsConfig {
+  host: string;
+  port: number;
+}
+
+/**
+ * HTTP API для инженеров поддержки (раздел "admin")
+ * host - адрес, на котором слушать (по умолчанию 127.0.0.1)
+ * port - порт listener'а
+ * token - Bearer токен, без которого запросы отклоняются
+ * readOnly - разрешены только GET запросы
+ */
+export interface AdminConfig {
+  host: string;
+  port: number;
+  token: string;
+  readOnly: boolean;
+}
 
 interface NasCredentialsConfig {
   user: string;
   password: string;
 }
 
-function isNasCredentialsConfig(candidate: unknown): candidate is NasCredentialsConfig {
-  return (
-    typeof candidate === "object" &&
-    candidate !== null &&
-    "user" in candidate &&
-    "password" in candidate
-  );
+/**
+ * Загруженный конфиг: NAS по адресу, индекс алиасов и необязательные разделы демона
+ */
+interface LoadedConfig {
+  servers: Map<NasServer, NasConfig>;
+  aliases: Map<string, NasServer>;
+  metrics?: MetricsConfig;
+  admin?: AdminConfig;
+}
+
+const DEFAULT_TIMEOUTS: NasTimeouts = { connect: 5_000, command: 30_000 };
+
+type ReloadListener = (changed: NasServer[]) => void;
+
+let current: LoadedConfig | null = null;
+const reloadListeners: ReloadListener[] = [];
+
+// ─────────────────────────── Проверка схемы ───────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPort(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) < 65536;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function validateCoA(value: unknown, where: string, issues: string[]): NasCoAConfig | undefined {
+  if (!isObject(value)) {
+    issues.push(`${where}: must be an object`);
+    return undefined;
+  }
+  if (typeof value.secret !== "string" || value.secret === "") {
+    issues.push(`${where}.secret: must be a non-empty string`);
+  }
+  if (value.port !== undefined && !isPort(value.port)) {
+    issues.push(`${where}.port: must be an integer 1..65535`);
+  }
+  if (value.timeout !== undefined && !isPositiveNumber(value.timeout)) {
+    issues.push(`${where}.timeout: must be a positive number of milliseconds`);
+  }
+  const retries = value.retries;
+  if (retries !== undefined && !(Number.isInteger(retries) && (retries as number) >= 0)) {
+    issues.push(`${where}.retries: must be a non-negative integer`);
+  }
+  return value as unknown as NasCoAConfig;
+}
+
+/**
+ * Раздел "tls" может быть true (проверка по системным CA) или объектом:
+ *   { "ca": "/path/ca.pem", "fingerprint": "AB:CD:...", "servername": "bras1.example",
+ *     "cert": "/path/client.pem", "key": "/path/client.key", "insecure": false }
+ * Пути к файлам читаются при загрузке конфига, поэтому после замены сертификата достаточно SIGHUP
+ */
+function validateTls(value: unknown, where: string, issues: string[]): TlsOptions | false {
+  if (value === undefined || value === false) return false;
+  if (value === true) return {};
+  if (!isObject(value)) {
+    issues.push(`${where}: must be true, false or an object`);
+    return false;
+  }
+
+  const options: TlsOptions = {};
+  for (const key of ["ca", "cert", "key"] as const) {
+    const file = value[key];
+    if (file === undefined) continue;
+    if (typeof file !== "string") {
+      issues.push(`${where}.${key}: must be a path to a PEM file`);
+      continue;
+    }
+    try {
+      options[key] = fs.readFileSync(path.resolve(path.dirname(configPath), file), "utf-8");
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      issues.push(`${where}.${key}: cannot read ${file}: ${reason}`);
+    }
+  }
+  if ((value.cert === undefined) !== (value.key === undefined)) {
+    issues.push(`${where}: "cert" and "key" must be set together`);
+  }
+  if (value.fingerprint !== undefined) {
+    if (
+      typeof value.fingerprint !== "string" ||
+      !/^[0-9a-f]{64}$/i.test(value.fingerprint.replace(/[:\s]/g, ""))
+    ) {
+      issues.push(`${where}.fingerprint: must be a SHA-256 fingerprint (64 hex digits)`);
+    } else {
+      options.fingerprint = value.fingerprint;
+    }
+  }
+  if (value.servername !== undefined) {
+    if (typeof value.servername !== "string" || value.servername === "") {
+      issues.push(`${where}.servername: must be a non-empty string`);
+    } else {
+      options.servername = value.servername;
+    }
+  }
+  if (value.insecure !== undefined) {
+    if (typeof value.insecure !== "boolean") {
+      issues.push(`${where}.insecure: must be true or false`);
+    } else {
+      options.insecure = value.insecure;
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (!["ca", "cert", "key", "fingerprint", "servername", "insecure"].includes(key)) {
+      issues.push(`${where}.${key}: unknown TLS option`);
+    }
+  }
+  return options;
+}
+
+function validateMetrics(value: unknown, issues: string[]): MetricsConfig | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    issues.push("metrics: must be an object");
+    return undefined;
+  }
+  if (!isPort(value.port)) {
+    issues.push("metrics.port: must be an integer 1..65535");
+  }
+  if (value.host !== undefined && (typeof value.host !== "string" || value.host === "")) {
+    issues.push("metrics.host: must be a non-empty string");
+  }
+  return { host: (value.host as string | undefined) ?? "127.0.0.1", port: value.port as number };
+}
+
+function validateAdmin(value: unknown, issues: string[]): AdminConfig | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    issues.push("admin: must be an object");
+    return undefined;
+  }
+  if (!isPort(value.port)) {
+    issues.push("admin.port: must be an integer 1..65535");
+  }
+  if (value.host !== undefined && (typeof value.host !== "string" || value.host === "")) {
+    issues.push("admin.host: must be a non-empty string");
+  }
+  if (typeof value.token !== "string" || value.token.length < 16) {
+    issues.push("admin.token: must be a string of at least 16 characters");
+  }
+  if (value.readOnly !== undefined && typeof value.readOnly !== "boolean") {
+    issues.push("admin.readOnly: must be true or false");
+  }
+  return {
+    host: (value.host as string | undefined) ?? "127.0.0.1",
+    port: value.port as number,
+    token: value.token as string,
+    readOnly: (value.readOnly as boolean | undefined) ?? false,
+  };
+}
+
+/**
+ * Тип очереди для обоих направлений: "pcq-default" -> "pcq-default/pcq-default"
+ */
+function queueType(value: string | undefined): string {
+  if (value === undefined) return DEFAULT_QUEUE_TYPE;
+  return value.includes("/") ? value : `${value}/${value}`;
+}
+
+function validateDhcp(value: unknown, where: string, issues: string[]): NasDhcpConfig | undefined {
+  if (!isObject(value)) {
+    issues.push(`${where}: must be an object`);
+    return undefined;
+  }
+  if (typeof value.server !== "string" || value.server === "") {
+    issues.push(`${where}.server: must be a non-empty string`);
+  }
+  if (
+    value.leaseTime !== undefined &&
+    !(typeof value.leaseTime === "string" && /^[0-9wdhms:]+$/.test(value.leaseTime))
+  ) {
+    issues.push(`${where}.leaseTime: must be a RouterOS time, e.g. "1d" or "12h"`);
+  }
+  const lists = value.addressLists;
+  if (
+    lists !== undefined &&
+    !(Array.isArray(lists) && lists.every((list) => typeof list === "string" && list))
+  ) {
+    issues.push(`${where}.addressLists: must be an array of non-empty strings`);
+  }
+  return {
+    server: value.server as string,
+    leaseTime: value.leaseTime as string | undefined,
+    addressLists: (lists as string[] | undefined) ?? [],
+  };
+}
+
+function validateNas(address: string, value: unknown, issues: string[]): NasConfig | null {
+  const where = `servers.${address}`;
+  if (!isObject(value)) {
+    issues.push(`${where}: must be an object`);
+    return null;
+  }
+  const before = issues.length;
+
+  for (const key of ["user", "password"] as const) {
+    if (typeof value[key] !== "string") {
+      issues.push(`${where}.${key}: must be a string`);
+    }
+  }
+  if (value.port !== undefined && !isPort(value.port)) {
+    issues.push(`${where}.port: must be an integer 1..65535`);
+  }
+  const tls = validateTls(value.tls, `${where}.tls`, issues);
+  if (value.enabled !== undefined && typeof value.enabled !== "boolean") {
+    issues.push(`${where}.enabled: must be true or false`);
+  }
+  if (value.mode !== undefined && value.mode !== "api" && value.mode !== "coa") {
+    issues.push(`${where}.mode: must be "api" or "coa"`);
+  }
+  if (
+    value.aliases !== undefined &&
+    !(Array.isArray(value.aliases) && value.aliases.every((a) => typeof a === "string" && a))
+  ) {
+    issues.push(`${where}.aliases: must be an array of non-empty strings`);
+  }
+  if (value.timeouts !== undefined) {
+    if (!isObject(value.timeouts)) {
+      issues.push(`${where}.timeouts: must be an object`);
+    } else {
+      for (const [key, timeout] of Object.entries(value.timeouts)) {
+        if (!(key in DEFAULT_TIMEOUTS)) {
+          issues.push(`${where}.timeouts.${key}: unknown timeout`);
+        } else if (!isPositiveNumber(timeout)) {
+          issues.push(`${where}.timeouts.${key}: must be a positive number of milliseconds`);
+        }
+      }
+    }
+  }
+  if (
+    value.queueType !== undefined &&
+    !(typeof value.queueType === "string" && /^[^/\s]+(\/[^/\s]+)?$/.test(value.queueType))
+  ) {
+    issues.push(`${where}.queueType: must be "<type>" or "<upload type>/<download type>"`);
+  }
+  if (
+    value.sessions !== undefined &&
+    !(
+      Array.isArray(value.sessions) &&
+      value.sessions.every((kind) => SESSION_KINDS.includes(kind as SessionKind))
+    )
+  ) {
+    issues.push(`${where}.sessions: must be an array of ${SESSION_KINDS.join(", ")}`);
+  }
+  const coa = value.coa === undefined ? undefined : validateCoA(value.coa, `${where}.coa`, issues);
+  const dhcp =
+    value.dhcp === undefined ? undefined : validateDhcp(value.dhcp, `${where}.dhcp`, issues);
+  if (value.mode === "coa" && value.coa === undefined) {
+    issues.push(`${where}.coa: is required when mode is "coa"`);
+  }
+
+  if (issues.length > before) return null;
+
+  if (!tls) {
+    console.warn(`[Config] NAS ${address} uses plain API (8728): password is sent in cleartext`);
+  } else if (tls.insecure) {
+    console.warn(`[Config] NAS ${address} has TLS verification disabled`);
+  }
+
+  return {
+    address,
+    user: value.user as string,
+    password: value.password as string,
+    port: (value.port as number | undefined) ?? (tls ? 8729 : 8728),
+    tls,
+    timeouts: { ...DEFAULT_TIMEOUTS, ...(value.timeouts as Partial<NasTimeouts> | undefined) },
+    aliases: (value.aliases as string[] | undefined) ?? [],
+    enabled: (value.enabled as boolean | undefined) ?? true,
+    mode: (value.mode as NasControlMode | undefined) ?? "api",
+    coa,
+    queueType: queueType(value.queueType as string | undefined),
+    sessions: [...new Set((value.sessions as SessionKind[] | undefined) ?? [])],
+    dhcp,
+  };
+}
+
+/**
+ * Проверяет разобранный JSON конфига и собирает все найденные проблемы
+ * @throws ConfigError со списком проблем
+ */
+function validateConfig(raw: unknown): LoadedConfig {
+  const issues: string[] = [];
+  const servers = new Map<NasServer, NasConfig>();
+  const aliases = new Map<string, NasServer>();
+
+  if (!isObject(raw) || !isObject(raw.servers)) {
+    throw new ConfigError(configPath, ['"servers": must be an object with NAS addresses as keys']);
+  }
+  if (Object.keys(raw.servers).length === 0) {
+    issues.push('"servers": at least one NAS is required');
+  }
+
+  for (const [address, value] of Object.entries(raw.servers)) {
+    const nas = validateNas(address, value, issues);
+    if (nas) servers.set(address, nas);
+  }
+
+  // Алиасы должны однозначно указывать на один NAS
+  for (const nas of servers.values()) {
+    for (const alias of nas.aliases) {
+      const owner = servers.has(alias) ? alias : aliases.get(alias);
+      if (owner !== undefined && owner !== nas.address) {
+        issues.push(`servers.${nas.address}.aliases: "${alias}" is already used by ${owner}`);
+      }
+      aliases.set(alias, nas.address);
+    }
+  }
+
+  const metrics = validateMetrics(raw.metrics, issues);
+  const admin = validateAdmin(raw.admin, issues);
+
+  if (issues.length) {
+    throw new ConfigError(configPath, issues);
+  }
+  return { servers, aliases, metrics, admin };
+}
+
+function readConfig(): LoadedConfig {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    throw new ConfigError(configPath, [err instanceof Error ? err.message : String(err)]);
+  }
+  return validateConfig(raw);
+}
+
+function getConfig(): LoadedConfig {
+  current ??= readConfig();
+  return current;
 }
 
+// ─────────────────────────── Загрузка и перезагрузка ───────────────────────────
+
 /**
  * Определяю конфиг для доступа к серверам
- * CONFIG_FILE - файл с логинами и паролями к серверам NAS
- * должен лежать в корне с проектом
- */
-const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
-
-export function checkCredentials() {
-  return (
-    typeof config === "object" &&
-    config !== null &&
-    "servers" in config &&
-    typeof config["servers"] === "object" &&
-    NAS_SERVERS.every((server) => {
-      return server in config.servers && isNasCredentialsConfig(config.servers[server]);
-    })
+ * CONFIG_FILE - файл с описанием NAS (адреса, логины, пароли, порты, алиасы)
+ * должен лежать в корне с проектом или по пути из переменной окружения NAS_CONFIG
+ * @throws ConfigError если файл не читается или не проходит проверку
+ */
+export function loadConfig(): void {
+  current = readConfig();
+}
+
+/**
+ * Перечитывает конфиг (по SIGHUP). При ошибке оставляет прежний конфиг
+ * @returns true, если новый конфиг применён
+ */
+export function reloadConfig(): boolean {
+  let next: LoadedConfig;
+  try {
+    next = readConfig();
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    console.error(`[Config] Reload failed, keeping previous config: ${reason}`);
+    return false;
+  }
+
+  const previous = current;
+  current = next;
+
+  // Изменённые и удалённые NAS: их соединения нужно пересоздать
+  const changed = [...(previous?.servers.keys() ?? [])].filter(
+    (nas) => JSON.stringify(previous?.servers.get(nas)) !== JSON.stringify(next.servers.get(nas)),
   );
+  const summary = changed.join(", ") || "none";
+  console.log(`[Config] Reloaded: ${next.servers.size} NAS, changed: ${summary}`);
+  for (const listener of reloadListeners) {
+    listener(changed);
+  }
+  return true;
+}
+
+/**
+ * Подписка на успешную перезагрузку конфига
+ * @param listener - получает список NAS, описание которых изменилось или удалено
+ */
+export function onConfigReload(listener: ReloadListener): void {
+  reloadListeners.push(listener);
+}
+
+// ─────────────────────────── Доступ к NAS ───────────────────────────
+
+/**
+ * Находит NAS по адресу или алиасу
+ * @param name - значение --nas из биллинга
+ * @throws UnknownNasError если NAS нет в конфиге или он выключен
+ */
+export function resolveNas(name: string): NasServer {
+  const { servers, aliases } = getConfig();
+  const address = servers.has(name) ? name : aliases.get(name);
+  const nas = address === undefined ? undefined : servers.get(address);
+  if (!nas) {
+    throw new UnknownNasError(name);
+  }
+  if (!nas.enabled) {
+    throw new UnknownNasError(name, "is disabled");
+  }
+  return nas.address;
+}
+
+/**
+ * Описан ли NAS в конфиге адресом или алиасом (включён он или нет)
+ */
+export function isConfiguredNas(name: string): boolean {
+  const { servers, aliases } = getConfig();
+  return servers.has(name) || aliases.has(name);
+}
+
+/**
+ * Возвращает описание NAS
+ * @throws UnknownNasError если NAS нет в конфиге
+ */
+export function getNasConfig(nas: NasServer): NasConfig {
+  const config = getConfig().servers.get(nas);
+  if (!config) {
+    throw new UnknownNasError(nas);
+  }
+  return config;
+}
+
+/**
+ * Возвращает все включённые NAS
+ */
+export function getNasList(): NasConfig[] {
+  return [...getConfig().servers.values()].filter((nas) => nas.enabled);
 }
 
 export function getCredentials(nas: NasServer): NasCredentialsConfig {
-  return config.servers[nas];
+  const { user, password } = getNasConfig(nas);
+  return { user, password };
+}
+
+/**
+ * Возвращает способ управления NAS: "api" по умолчанию
+ */
+export function getControlMode(nas: NasServer): NasControlMode {
+  return getNasConfig(nas).mode;
+}
+
+/**
+ * Возвращает параметры CoA для NAS
+ * @throws Error если для NAS не задан раздел "coa" в конфиге
+ */
+export function getCoAConfig(nas: NasServer): NasCoAConfig {
+  const coa = getNasConfig(nas).coa;
+  if (!coa) {
+    throw new Error(`CoA is not configured for NAS ${nas}`);
+  }
+  return coa;
+}
+
+// ─────────────────────────── Разделы демона ───────────────────────────
+
+/**
+ * Возвращает настройки listener'а метрик или undefined, если раздел "metrics" не задан
+ * Изменение раздела применяется после перезапуска демона
+ */
+export function getMetricsConfig(): MetricsConfig | undefined {
+  return getConfig().metrics;
+}
+
+/**
+ * Возвращает настройки HTTP API поддержки или undefined, если раздел "admin" не задан
+ * Изменение раздела применяется после перезапуска демона
+ */
+export function getAdminConfig(): AdminConfig | undefined {
+  return getConfig().admin;
 }
@@ -1,10 +1,382 @@
 import { getConnection, RouterOSClient } from "./ros-openai";
-import { getCredentials, NasServer } from "./config-preloader";
+import { getNasConfig, NasServer, onConfigReload } from "./config-preloader";
+import { LoginError, TlsVerificationError } from "./errors";
+import { connectionFailures } from "./metrics";
 
+/**
+ * Параметры пула соединений
+ * maxConnections - максимум соединений на один NAS
+ * idleTimeout - через сколько мс простоя соединение закрывается
+ * healthCheckInterval - период обслуживания пула: проверка соединений и вытеснение простаивающих
+ * healthCheckTimeout - сколько мс ждать ответ на проверочную команду
+ * backoffBase/backoffMax - начальная и максимальная пауза между попытками подключения
+ * connectAttempts - сколько попыток подключения делать в рамках одного запроса соединения
+ */
+const POOL_OPTIONS = {
+  maxConnections: 4,
+  idleTimeout: 5 * 60_000,
+  healthCheckInterval: 30_000,
+  healthCheckTimeout: 5_000,
+  backoffBase: 1_000,
+  backoffMax: 30_000,
+  connectAttempts: 3,
+};
+
+/**
+ * Команда, не меняющая состояние роутера, для проверки живости соединения
+ */
+const HEALTH_CHECK_COMMAND = ["/system/identity/print"];
+
+/**
+ * Через сколько мс простоя отдельное соединение (openDedicated) начинает TCP keepalive
+ */
+const DEDICATED_KEEPALIVE = 30_000;
+
+/**
+ * Причина неудачного подключения для метрики mikrotik_connection_failures_total
+ */
+function failureReason(err: unknown): string {
+  if (err instanceof LoginError) return "login";
+  if (err instanceof TlsVerificationError) return "tls";
+  return "connect";
+}
+
+/**
+ * Соединение в пуле
+ * leases - сколько потребителей сейчас используют соединение (команды мультиплексируются по .tag)
+ * lastUsed - время последнего освобождения, для вытеснения простаивающих
+ */
+interface PooledConnection {
+  client: RouterOSClient;
+  leases: number;
+  lastUsed: number;
+}
+
+/**
+ * Пул одного NAS
+ * pending - текущая попытка подключения, которую могут дождаться другие запросы
+ * failures - число неудачных подключений подряд, определяет паузу перед следующей попыткой
+ */
+interface NasPool {
+  connections: PooledConnection[];
+  pending: Promise<PooledConnection> | null;
+  failures: number;
+  nextAttemptAt: number;
+  totalConnects: number;
+  totalFailures: number;
+  lastError: string | null;
+}
+
+/**
+ * Статистика пула одного NAS
+ */
+export interface NasPoolStats {
+  nas: NasServer;
+  connections: number;
+  busy: number;
+  idle: number;
+  leases: number;
+  connecting: boolean;
+  consecutiveFailures: number;
+  totalConnects: number;
+  totalFailures: number;
+  lastError: string | null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * ConnectionManager — пул авторизованных соединений с NAS.
+ *
+ * Соединение открывается и логинится один раз, затем переиспользуется:
+ *  - свободное соединение отдаётся первым; если все заняты и лимит не достигнут — открывается новое,
+ *    иначе отдаётся наименее загруженное (команды на нём выполняются параллельно по .tag)
+ *  - периодически простаивающие соединения проверяются командой HEALTH_CHECK_COMMAND
+ *    и закрываются после idleTimeout
+ *  - неудачные подключения повторяются с экспоненциальной паузой
+ */
 class ConnectionManager {
-  async getConnection(nas: NasServer): Promise<RouterOSClient> {
-    const credentials = getCredentials(nas);
-    return await getConnection(nas, credentials.user, credentials.password);
+  private pools = new Map<NasServer, NasPool>();
+  // Занятые соединения убранных пулов: закрываются, когда их вернёт последний потребитель
+  private retired = new Map<RouterOSClient, PooledConnection>();
+  private maintenanceTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    // Описание NAS изменилось (адрес, порт, пароль...) — старые соединения больше не годятся
+    onConfigReload((changed) => changed.forEach((nas) => this.drop(nas)));
+  }
+
+  /**
+   * Выдаёт соединение с NAS; после использования его нужно вернуть через release()
+   * @param nas - Адрес NAS устройства
+   * @throws ConnectionError если подключиться не удалось за POOL_OPTIONS.connectAttempts попыток
+   * @throws LoginError если роутер отклонил логин
+   */
+  async acquire(nas: NasServer): Promise<RouterOSClient> {
+    this.startMaintenance();
+    const pool = this.getPool(nas);
+    this.prune(pool);
+
+    const least = this.leastLoaded(pool);
+    const full = pool.connections.length >= POOL_OPTIONS.maxConnections;
+    if (least && (least.leases === 0 || full || pool.pending)) {
+      least.leases++;
+      return least.client;
+    }
+
+    try {
+      const entry = await (pool.pending ?? this.connect(nas, pool));
+      entry.leases++;
+      return entry.client;
+    } catch (err) {
+      // Новое соединение открыть не удалось — пользуемся уже существующим, если оно есть
+      const fallback = this.leastLoaded(pool);
+      if (!fallback) throw err;
+      fallback.leases++;
+      return fallback.client;
+    }
+  }
+
+  /**
+   * Открывает отдельное соединение вне пула для долгой команды (подписки /listen): она
+   * занимала бы соединение пула всё время жизни и вытесняла бы обычные команды из maxConnections
+   * Соединение не проверяется и не закрывается пулом — его закрывает вызывающий
+   * @param nas - Адрес NAS устройства
+   * @throws ConnectionError, LoginError если подключиться не удалось
+   */
+  async openDedicated(nas: NasServer): Promise<RouterOSClient> {
+    const config = getNasConfig(nas);
+    const client = await getConnection(
+      nas,
+      config.user,
+      config.password,
+      config.tls,
+      config.port,
+      config.timeouts.connect,
+    );
+    client.keepAlive(DEDICATED_KEEPALIVE);
+    return client;
+  }
+
+  /**
+   * Возвращает соединение в пул. Закрытые соединения из пула удаляются
+   * @param nas - Адрес NAS устройства
+   * @param client - Соединение, полученное через acquire()
+   */
+  release(nas: NasServer, client: RouterOSClient): void {
+    const pool = this.pools.get(nas);
+    const entry = pool?.connections.find((c) => c.client === client);
+    if (!pool || !entry) {
+      this.releaseRetired(client);
+      return;
+    }
+    entry.leases = Math.max(0, entry.leases - 1);
+    entry.lastUsed = Date.now();
+    this.prune(pool);
+  }
+
+  /**
+   * Возвращает статистику по пулам всех NAS, к которым были подключения
+   */
+  getStats(): NasPoolStats[] {
+    return [...this.pools].map(([nas, pool]) => {
+      const busy = pool.connections.filter((c) => c.leases > 0).length;
+      return {
+        nas,
+        connections: pool.connections.length,
+        busy,
+        idle: pool.connections.length - busy,
+        leases: pool.connections.reduce((sum, c) => sum + c.leases, 0),
+        connecting: pool.pending !== null,
+        consecutiveFailures: pool.failures,
+        totalConnects: pool.totalConnects,
+        totalFailures: pool.totalFailures,
+        lastError: pool.lastError,
+      };
+    });
+  }
+
+  /**
+   * Закрывает все соединения и останавливает обслуживание пула (при завершении процесса)
+   */
+  async closeAll(): Promise<void> {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+    const connections = [
+      ...[...this.pools.values()].flatMap((pool) => pool.connections),
+      ...this.retired.values(),
+    ];
+    this.pools.clear();
+    this.retired.clear();
+    await Promise.all(connections.map((c) => c.client.close()));
+  }
+
+  /**
+   * Убирает пул NAS: свободные соединения закрываются сразу,
+   * занятые — когда через release() вернут последнюю выдачу (команды на них доработают)
+   */
+  private drop(nas: NasServer) {
+    const pool = this.pools.get(nas);
+    if (!pool) return;
+    this.pools.delete(nas);
+    for (const entry of pool.connections) {
+      if (entry.leases === 0) {
+        void entry.client.close();
+      } else {
+        this.retired.set(entry.client, entry);
+      }
+    }
+  }
+
+  /**
+   * Возвращает соединение убранного пула; закрывает его после последней выдачи
+   */
+  private releaseRetired(client: RouterOSClient) {
+    const entry = this.retired.get(client);
+    if (entry && --entry.leases > 0) return;
+    this.retired.delete(client);
+    void client.close();
+  }
+
+  private getPool(nas: NasServer): NasPool {
+    let pool = this.pools.get(nas);
+    if (!pool) {
+      pool = {
+        connections: [],
+        pending: null,
+        failures: 0,
+        nextAttemptAt: 0,
+        totalConnects: 0,
+        totalFailures: 0,
+        lastError: null,
+      };
+      this.pools.set(nas, pool);
+    }
+    return pool;
+  }
+
+  private leastLoaded(pool: NasPool): PooledConnection | undefined {
+    return pool.connections.reduce<PooledConnection | undefined>(
+      (best, c) => (!best || c.leases < best.leases ? c : best),
+      undefined,
+    );
+  }
+
+  /**
+   * Убирает из пула закрытые соединения
+   */
+  private prune(pool: NasPool) {
+    pool.connections = pool.connections.filter((c) => !c.client.closed);
+  }
+
+  /**
+   * Открывает и авторизует новое соединение, соблюдая паузу после предыдущих неудач
+   */
+  private connect(nas: NasServer, pool: NasPool): Promise<PooledConnection> {
+    pool.pending = (async () => {
+      for (let attempt = 1; ; attempt++) {
+        const delay = pool.nextAttemptAt - Date.now();
+        if (delay > 0) await sleep(delay);
+        try {
+          const config = getNasConfig(nas);
+          const client = await getConnection(
+            nas,
+            config.user,
+            config.password,
+            config.tls,
+            config.port,
+            config.timeouts.connect,
+          );
+          const entry = { client, leases: 0, lastUsed: Date.now() };
+          pool.connections.push(entry);
+          pool.failures = 0;
+          pool.nextAttemptAt = 0;
+          pool.totalConnects++;
+          return entry;
+        } catch (err) {
+          pool.failures++;
+          pool.totalFailures++;
+          pool.lastError = err instanceof Error ? err.message : String(err);
+          connectionFailures.inc({ nas, reason: failureReason(err) });
+          const backoff = POOL_OPTIONS.backoffBase * 2 ** (pool.failures - 1);
+          pool.nextAttemptAt = Date.now() + Math.min(backoff, POOL_OPTIONS.backoffMax);
+          console.error(`[Pool] Connection to ${nas} failed (attempt ${attempt}):`, pool.lastError);
+          // Неверные логин/пароль повторными попытками не исправить
+          if (attempt >= POOL_OPTIONS.connectAttempts || err instanceof LoginError) throw err;
+        }
+      }
+    })().finally(() => {
+      pool.pending = null;
+    });
+    return pool.pending;
+  }
+
+  /**
+   * Запускает периодическое обслуживание пулов (таймер не удерживает процесс от завершения)
+   */
+  private startMaintenance() {
+    if (this.maintenanceTimer) return;
+    this.maintenanceTimer = setInterval(() => {
+      for (const [nas, pool] of this.pools) {
+        void this.maintain(nas, pool);
+      }
+    }, POOL_OPTIONS.healthCheckInterval);
+    this.maintenanceTimer.unref();
+  }
+
+  /**
+   * Закрывает простаивающие дольше idleTimeout соединения, остальные свободные проверяет
+   * На время проверки соединение убирается из пула: acquire() не выдаст его, пока идёт
+   * проверочная команда, и закрывается только соединение, которым никто не пользуется
+   */
+  private async maintain(nas: NasServer, pool: NasPool) {
+    this.prune(pool);
+    const now = Date.now();
+    for (const entry of [...pool.connections]) {
+      if (entry.leases > 0) continue;
+      pool.connections = pool.connections.filter((c) => c !== entry);
+      if (now - entry.lastUsed > POOL_OPTIONS.idleTimeout) {
+        await entry.client.close();
+        continue;
+      }
+      const healthy = await this.healthCheck(entry.client);
+      // Пул мог быть убран перезагрузкой конфига, пока шла проверка
+      if (healthy && this.pools.get(nas) === pool) {
+        pool.connections.push(entry);
+      } else {
+        await entry.client.close();
+      }
+    }
+  }
+
+  /**
+   * Выполняет проверочную команду; false при ошибке, '!trap' или отсутствии ответа
+   * Команда без ответа отменяется через /cancel, чтобы не оставаться на соединении
+   */
+  private async healthCheck(client: RouterOSClient): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const tagged = client.command(HEALTH_CHECK_COMMAND);
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => {
+        tagged.cancel().catch(() => {});
+        resolve(false);
+      }, POOL_OPTIONS.healthCheckTimeout);
+    });
+    const check = (async () => {
+      for await (const [reply] of tagged.replies) {
+        if (reply === "!trap") return false;
+      }
+      return true;
+    })().catch(() => false);
+    try {
+      return await Promise.race([check, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
   }
 }
 
@@ -1,53 +1,386 @@
 import RouterApi from "./api";
-import { NasServer } from "./config-preloader";
+import RadiusCoA from "./radius-coa";
+import {
+  getControlMode,
+  getNasConfig,
+  getNasList,
+  isConfiguredNas,
+  NasServer,
+  resolveNas,
+} from "./config-preloader";
+import { ConnectionError, RequestError, UnknownNasError } from "./errors";
+import { commandDuration, commandsTotal } from "./metrics";
+import { withAuditContext } from "./audit-log";
+import { Action, parseSocketRequest, SocketRequest } from "./request-parser";
+import { formatRateLimit, ShapeProfile } from "./shape";
+import { Subscriber, toTarget } from "./subscriber";
+import NasLocator from "./nas-locator";
 
 /**
- * Структура запроса, получаемого через Unix socket от RADIUS/внешних систем
- * Формат строки протокола: "action|reason|nas|ip|mac|speed"
+ * Address-list на NAS, адреса из которого firewall перенаправляет на страницу оплаты
  */
-type SocketRequest = {
-  action: string;
-  reason?: string;
-  login: string;
-  nas: NasServer;
-  ip: string;
-  mac: string;
-  shape: string;
-};
+const BLOCKED_LIST = "blocked";
+
+/**
+ * Действия, которые начинают работу абонента на NAS: --nas в них верен по определению,
+ * и искать абонента на других NAS не нужно
+ */
+const PLACING_ACTIONS: readonly Action[] = ["start", "create"];
+
+/**
+ * Запрос, для которого NAS уже определён
+ */
+type NasRequest = SocketRequest & { nas: NasServer };
 
-function isSocketRequest(value: unknown): value is SocketRequest {
-  return (
-    typeof value === "object" &&
-    value != null &&
-    "action" in value &&
-    "login" in value &&
-    "nas" in value &&
-    "ip" in value &&
-    "mac" in value
-  );
+/**
+ * Есть ли у демона доступ к NAS по RouterOS API
+ * У NAS с mode "coa" его нет: очереди, lease, DHCPv6 binding и address-list там не меняются,
+ * скорость и разрыв сессии выполняются через RADIUS CoA
+ */
+function hasApiAccess(nas: NasServer): boolean {
+  return getControlMode(nas) === "api";
 }
 
-export default async function handleCommand(command: string): Promise<void> {
-  const parsedParams = command.split("--").reduce(
-    (acc, el) => {
-      const [key, value] = el.split(" ");
-      if (key && value !== undefined) {
-        acc[key] = value.trim();
-      }
-      return acc;
-    },
-    {} as Record<string, string>,
-  );
-
-  if (isSocketRequest(parsedParams)) {
-    const { action, reason, nas, ip } = parsedParams;
-    if (action === "stop") {
-      if (reason === "timeout") {
-        console.log(`[Handler] Skipping lease removal for timeout - session likely already dead`);
-        return;
-      }
+/**
+ * Проверяет, что биллинг передал скорость
+ * @param shape - скорость из --shape
+ * @throws RequestError если скорость не передана
+ */
+function requireShape(shape: ShapeProfile | undefined): ShapeProfile {
+  if (!shape) {
+    throw new RequestError("Missing --shape");
+  }
+  return shape;
+}
+
+/**
+ * IPv6 адреса абонента с dual-stack: адрес или сеть из --ipv6 и делегированный префикс
+ */
+function ipv6Targets({ ipv6, ipv6Prefix }: NasRequest): string[] {
+  return [ipv6, ipv6Prefix].filter((cidr) => cidr !== undefined).map(toTarget);
+}
+
+/**
+ * Абонент запроса для очереди: сеть из --net (маршрутизируемый префикс) или адрес из --ip
+ * и IPv6 адреса, если биллинг их передал — одна очередь ограничивает оба семейства
+ */
+function subscriberOf(request: NasRequest): Subscriber {
+  const { login, session, ip, net } = request;
+  return { login, session, targets: [toTarget(net ?? ip), ...ipv6Targets(request)] };
+}
+
+/**
+ * Удаляет DHCPv6 binding абонента
+ */
+async function removeBindings(request: NasRequest): Promise<void> {
+  if (!hasApiAccess(request.nas)) return;
+  for (const target of ipv6Targets(request)) {
+    await RouterApi.removeBindings(request.nas, target);
+  }
+}
+
+/**
+ * Создаёт или обновляет статический lease абонента, если у NAS есть раздел "dhcp"
+ * и биллинг передал --mac
+ */
+async function syncStaticLease({ nas, ip, mac, login }: NasRequest): Promise<void> {
+  const dhcp = getNasConfig(nas).dhcp;
+  if (!hasApiAccess(nas) || !dhcp || !mac) return;
+  await RouterApi.setStaticLease(nas, { address: ip, mac, login, ...dhcp });
+}
+
+/**
+ * Включает или отключает статический lease абонента, если у NAS есть раздел "dhcp"
+ */
+async function setLeaseEnabled({ nas, ip }: NasRequest, enabled: boolean): Promise<void> {
+  if (!hasApiAccess(nas) || !getNasConfig(nas).dhcp) return;
+  await RouterApi.setLeaseEnabled(nas, ip, enabled);
+}
+
+/**
+ * Применяет скорость абонента выбранным для NAS способом:
+ * очередь через RouterOS API или Mikrotik-Rate-Limit через RADIUS CoA
+ */
+async function applyShape(request: NasRequest): Promise<void> {
+  const { nas, ip, login, session, shape } = request;
+  if (getControlMode(nas) === "coa") {
+    const rateLimit = formatRateLimit(requireShape(shape));
+    const coaSession = { login, session: requireSession(session), ip };
+    await RadiusCoA.changeRateLimit(nas, coaSession, rateLimit);
+    return;
+  }
+  await RouterApi.setSubscriberQueue(nas, subscriberOf(request), requireShape(shape));
+}
+
+/**
+ * Разрывает PPP/hotspot сессии абонента на NAS, где они есть (sessions в конфиге NAS)
+ * Сессия ищется по --session, без него — по логину и IP
+ * На NAS с mode "coa" сессия разрывается Disconnect-Request, если биллинг передал --session
+ */
+async function terminateSessions({ nas, login, ip, session }: NasRequest): Promise<void> {
+  if (!hasApiAccess(nas)) {
+    if (session) {
+      await RadiusCoA.disconnect(nas, { login, session, ip });
+    } else {
+      console.warn(`[Handler] No --session to disconnect ${login} on CoA NAS ${nas}`);
+    }
+    return;
+  }
+  const query = session ? { session } : { login, ip };
+  for (const kind of getNasConfig(nas).sessions) {
+    const count = await RouterApi.removeActiveSessions(nas, kind, query);
+    if (count > 0) {
+      console.log(`[Handler] Terminated ${count} ${kind} session(s) of ${login} on ${nas}`);
+    }
+  }
+}
+
+/**
+ * Биллинг передаёт в --blocked код блокировки; 0 — абонент не заблокирован
+ */
+function isBlocked(blocked: number | undefined): boolean {
+  return blocked !== undefined && blocked !== 0;
+}
+
+/**
+ * Адрес абонента в address-list: вся сеть из --net (маршрутизируемый префикс) или адрес из --ip
+ * Одиночный адрес пишется без "/32": так его хранит и ищет RouterOS
+ */
+function blockedAddress({ ip, net }: NasRequest): string {
+  return net ? toTarget(net) : ip;
+}
 
+/**
+ * Добавляет абонента в список заблокированных; в комментарии записи — логин и код блокировки
+ * На NAS с mode "coa" address-list недоступен: блокировку применяет RADIUS при следующем
+ * входе абонента (off для этого разрывает сессию)
+ */
+async function block(request: NasRequest): Promise<void> {
+  const { nas, login, blocked } = request;
+  if (!hasApiAccess(nas)) {
+    console.log(`[Handler] Skipping address-list for ${login} on CoA NAS ${nas}`);
+    return;
+  }
+  const comment = blocked === undefined ? login : `${login} blocked=${blocked}`;
+  await RouterApi.addToAddressList(nas, BLOCKED_LIST, blockedAddress(request), { comment });
+}
+
+async function unblock(request: NasRequest): Promise<void> {
+  const { nas, login } = request;
+  if (!hasApiAccess(nas)) {
+    console.log(`[Handler] Skipping address-list for ${login} on CoA NAS ${nas}`);
+    return;
+  }
+  await RouterApi.removeFromAddressList(nas, BLOCKED_LIST, blockedAddress(request));
+}
+
+/**
+ * Приводит блокировку на NAS к состоянию --blocked, если биллинг его передал
+ */
+async function syncBlocking(request: NasRequest): Promise<void> {
+  if (request.blocked === undefined) return;
+  if (isBlocked(request.blocked)) {
+    await block(request);
+  } else {
+    await unblock(request);
+  }
+}
+
+/**
+ * Для CoA сессия обязательна: NAS находит её по Acct-Session-Id
+ */
+function requireSession(session: string | undefined): string {
+  if (!session) {
+    throw new RequestError("Session is required for CoA");
+  }
+  return session;
+}
+
+/**
+ * Обработчики действий биллинга
+ * Каждый обработчик переводит событие биллинга в операции RouterOS API или RADIUS CoA
+ */
+const handlers: Record<Action, (request: NasRequest) => Promise<void>> = {
+  // Начало сессии: выставляем скорость абонента и его статус блокировки
+  async start(request) {
+    await applyShape(request);
+    await syncBlocking(request);
+  },
+
+  // Окончание сессии или смена тарифа (reason=changed)
+  async stop(request) {
+    const { nas, ip, login, session, reason, shape, oldshape } = request;
+    if (reason === "changed") {
+      const from = oldshape ? formatRateLimit(oldshape) : "?";
+      const to = shape ? formatRateLimit(shape) : "?";
+      console.log(`[Handler] Changing speed ${from} => ${to} for ${ip}`);
+      await applyShape(request);
+      return;
+    }
+    if (reason === "timeout") {
+      console.log(`[Handler] Skipping lease removal for timeout - session likely already dead`);
+      return;
+    }
+    if (getControlMode(nas) === "coa") {
+      await RadiusCoA.disconnect(nas, { login, session: requireSession(session), ip });
+      return;
+    }
+    await terminateSessions(request);
+    // Статический lease живёт, пока есть учётная запись, и удаляется только на delete
+    if (!getNasConfig(nas).dhcp) {
       await RouterApi.removeLease(nas, ip);
     }
+    await removeBindings(request);
+  },
+
+  // Изменение учётной записи: обновляем статический lease (новый MAC или IP), применяем
+  // скорость и блокировку, если биллинг их передал
+  async edit(request) {
+    await syncStaticLease(request);
+    if (request.shape !== undefined) {
+      await applyShape(request);
+    }
+    if (request.blocked !== request.oldblocked) {
+      await syncBlocking(request);
+    }
+  },
+
+  // Разблокировка: убираем абонента из списка заблокированных, включаем lease
+  // и возвращаем скорость
+  async on(request) {
+    await unblock(request);
+    await setLeaseEnabled(request, true);
+    if (request.shape !== undefined) {
+      await applyShape(request);
+    }
+  },
+
+  // Блокировка: firewall перенаправляет абонента на страницу оплаты; PPP/hotspot сессия
+  // разрывается, чтобы абонент переподключился уже заблокированным; lease отключается
+  async off(request) {
+    await block(request);
+    await setLeaseEnabled(request, false);
+    await terminateSessions(request);
+  },
+
+  // Создание учётной записи: статический lease для абонента IPoE
+  async create(request) {
+    await syncStaticLease(request);
+  },
+
+  // Удаление учётной записи: убираем очереди, lease, DHCPv6 binding и блокировку
+  // (на NAS с mode "coa" этих записей демон не создаёт)
+  async delete(request) {
+    const { nas, ip } = request;
+    if (!hasApiAccess(nas)) return;
+    await RouterApi.removeSubscriberQueues(nas, subscriberOf(request));
+    await RouterApi.removeLease(nas, ip);
+    await removeBindings(request);
+    await unblock(request);
+  },
+
+  // Исчерпание квоты и остановка ISG-сервиса на MikroTik не обрабатываются
+  async quota() {},
+  async "isg-stop"() {},
+};
+
+/**
+ * Разбирает строку команды биллинга без обращения к NAS
+ * @param command - Строка параметров вида "--action start --nas ... --ip ..."
+ * @returns Проверенный запрос; nas из конфига уже приведён к его адресу
+ * @throws RequestError с указанием параметра, если строка или значение некорректны
+ * @throws UnknownNasError если NAS выключен
+ */
+export function parseCommand(command: string): SocketRequest {
+  const request = parseSocketRequest(command);
+  // Без --nas или с NAS, которого нет в конфиге, NAS ищется по абоненту при выполнении
+  if (request.nas === undefined || !isConfiguredNas(request.nas)) return request;
+  // --nas может быть адресом или алиасом из конфига
+  return { ...request, nas: resolveNas(request.nas) };
+}
+
+/**
+ * Определяет NAS, на котором выполнять запрос
+ * - NAS из конфига используется как есть для start и create и для NAS с mode "coa";
+ *   для остальных действий, если абонент найден только на других NAS (переехал на другой
+ *   BRAS), запрос выполняется там, где он найден
+ * - без --nas или с NAS не из конфига — NAS, на котором найден абонент
+ * @throws UnknownNasError если NAS не из конфига и абонент нигде не найден
+ * @throws RequestError если --nas не передан и абонент нигде не найден
+ * @throws ConnectionError если абонент не найден, но какой-то NAS не ответил (повторяется)
+ */
+async function locateNas(request: SocketRequest): Promise<NasServer> {
+  const { action, nas, login, ip } = request;
+  const query = { login, ip };
+  if (nas !== undefined && isConfiguredNas(nas)) {
+    const address = resolveNas(nas);
+    if (PLACING_ACTIONS.includes(action) || getControlMode(address) === "coa") return address;
+    // Единственный NAS в конфиге: искать абонента больше негде
+    if (getNasList().length === 1) return address;
+    // Другой NAS не ответил — остаёмся на --nas: если недоступен и он, задача повторится
+    const locate = (refresh = false): Promise<NasServer[]> =>
+      NasLocator.locate(query, refresh).catch((err) => {
+        if (err instanceof ConnectionError) return [];
+        throw err;
+      });
+    let found = await locate();
+    // Кэш мог устареть: прежде чем уходить с --nas, опрашиваем NAS заново
+    if (found.length > 0 && !found.includes(address)) {
+      found = await locate(true);
+    }
+    if (found.length === 0 || found.includes(address)) return address;
+    console.warn(`[Handler] ${login} (${ip}) is not on --nas ${nas}, using ${found[0]}`);
+    return found[0];
   }
+  const [located] = await NasLocator.locate(query);
+  if (located === undefined) {
+    if (nas !== undefined) throw new UnknownNasError(nas);
+    throw new RequestError(`Missing --nas and ${login} (${ip}) was not found on any NAS`);
+  }
+  if (nas !== undefined) {
+    console.warn(`[Handler] Unknown --nas ${nas}, ${login} (${ip}) found on ${located}`);
+  }
+  return located;
+}
+
+/**
+ * Выполняет разобранный запрос биллинга; без известного --nas NAS ищется по абоненту
+ * @throws UnknownNasError, RequestError если NAS не указан или не из конфига и абонент не найден
+ * @throws RouterOSError, CoANakError при ошибке выполнения на NAS
+ */
+export async function executeRequest(request: SocketRequest): Promise<void> {
+  const { action, login } = request;
+  // Пока NAS не найден, метрики не размечаются произвольным --nas из биллинга;
+  // таймер читает labels при остановке, поэтому найденный NAS попадает и в него
+  const labels = { action, nas: "unknown" };
+  const stopTimer = commandDuration.startTimer(labels);
+  // Пароль абонента в журнал аудита не попадает
+  const logged = { ...request, password: undefined };
+  const context = { source: "billing" as const, login, request: logged };
+  try {
+    const nas = await locateNas(request);
+    labels.nas = nas;
+    await withAuditContext(context, () => handlers[action]({ ...request, nas }));
+    if (action === "delete") {
+      NasLocator.forget(login);
+    } else {
+      NasLocator.remember(login, nas);
+    }
+    commandsTotal.inc({ ...labels, result: "ok" });
+  } catch (err) {
+    commandsTotal.inc({ ...labels, result: "error" });
+    throw err;
+  } finally {
+    stopTimer();
+  }
+}
+
+/**
+ * Разбирает строку команды биллинга и выполняет соответствующее действие
+ * @param command - Строка параметров вида "--action start --nas ... --ip ..."
+ * @throws RequestError, UnknownNasError если команда некорректна
+ * @throws RouterOSError, CoANakError при ошибке выполнения на NAS
+ */
+export default async function handleCommand(command: string): Promise<void> {
+  await executeRequest(parseCommand(command));
 }
@@ -1,55 +1,175 @@
 import * as net from "net";
 import * as fs from "fs";
-import handleCommand from "./controller";
-import { checkCredentials } from "./config-preloader";
+import JobQueue from "./job-queue";
+import ConnectionManager from "./connections-manager";
+import { getAdminConfig, getMetricsConfig, loadConfig, reloadConfig } from "./config-preloader";
+import { startAdminServer } from "./admin-api";
+import { socketClients, socketRequests, startMetricsServer } from "./metrics";
+import {
+  errorReply,
+  formatHandshake,
+  formatReply,
+  isHandshake,
+  parseRequest,
+  ProtocolError,
+  ProtocolRequest,
+} from "./protocol";
 
-const SOCKET_PATH = "/tmp/mikrotik.sock";
+// Путь к сокету можно переопределить переменной окружения SOCKET_PATH
+const SOCKET_PATH = process.env.SOCKET_PATH ?? "/tmp/mikrotik.sock";
 
 // Удаляем старый сокет если существует
 if (fs.existsSync(SOCKET_PATH)) {
   fs.unlinkSync(SOCKET_PATH);
 }
 
-// Проверяю загрузился ли конфиг для доступа к серверам
-if (!checkCredentials()) {
-  throw new Error("Данные доступа к серверам не загружены");
-}
+// Загружаю конфиг NAS; при ошибке схемы ConfigError перечислит все проблемы
+loadConfig();
+
+// Восстанавливаю незавершённые задачи, оставшиеся с прошлого запуска
+JobQueue.start();
+
+// HTTP listener метрик Prometheus, если в конфиге есть раздел "metrics"
+const metricsConfig = getMetricsConfig();
+const metricsServer = metricsConfig ? startMetricsServer(metricsConfig) : null;
+
+// HTTP API поддержки, если в конфиге есть раздел "admin"
+const adminConfig = getAdminConfig();
+const adminServer = adminConfig ? startAdminServer(adminConfig) : null;
 
 /**
  * Unix socket сервер для приема команд управления RouterOS устройствами
- * Принимает подключения на SOCKET_PATH, принимает команды
- * и отправляет их в handleCommand для обработки
- * Возвращает "OK" при успехе или "ERROR: <message>" при ошибке
+ * Принимает подключения на SOCKET_PATH, читает команды построчно (см. protocol.ts)
+ * и ставит их в персистентную очередь (job-queue.ts)
+ *  - устаревший режим: на каждую строку "OK" после записи в очередь, затем соединение закрывается;
+ *    команда без перевода строки выполняется, когда клиент закроет свою сторону соединения
+ *  - версия 1 ("PROTO 1"): запросы с id, EXEC ждёт первой попытки и возвращает "OK <id>" или
+ *    "ERROR <id> <code> <message>", SUBMIT подтверждает запись в очередь
  */
-const server = net.createServer((client) => {
+// allowHalfOpen: клиент может закрыть свою сторону сразу после запросов и дождаться ответов на EXEC
+const server = net.createServer({ allowHalfOpen: true }, (client) => {
+  let pending = "";
+  let version: number | null = null;
+  let json = false;
+  let inFlight = 0;
+  let quitting = false;
+  socketClients.inc({});
+
+  const reply = (line: string) => {
+    if (client.writable) client.write(line);
+  };
+
+  const finishIfDone = () => {
+    if (quitting && inFlight === 0) client.end();
+  };
+
+  const handleLine = (line: string) => {
+    if (line === "") return;
+    console.log(`[${new Date().toISOString()}] Received:`, line);
+
+    // Первая строка определяет режим соединения
+    if (version === null && !isHandshake(line)) {
+      socketRequests.inc({ verb: "LEGACY" });
+      quitting = true;
+      inFlight++;
+      JobQueue.enqueue(line)
+        .then(() => reply("OK\n"))
+        .catch((error) => {
+          console.error(`[${new Date().toISOString()}] Rejected:`, String(error));
+          reply(`ERROR: ${error instanceof Error ? error.message : String(error)}\n`);
+        })
+        .finally(() => {
+          inFlight--;
+          finishIfDone();
+        });
+      return;
+    }
+
+    let request: ProtocolRequest;
+    try {
+      request = parseRequest(line);
+    } catch (error) {
+      socketRequests.inc({ verb: "INVALID" });
+      const { id } = error instanceof ProtocolError ? error : { id: "-" };
+      reply(formatReply(errorReply(id, error), json));
+      return;
+    }
+
+    socketRequests.inc({ verb: request.verb });
+    switch (request.verb) {
+      case "PROTO":
+        version = request.version;
+        json = request.json;
+        reply(formatHandshake(json));
+        return;
+      case "SUBMIT":
+      case "EXEC": {
+        const { verb, id, command } = request;
+        inFlight++;
+        JobQueue.enqueue(command)
+          .then(async (job) => {
+            if (verb === "SUBMIT") {
+              reply(formatReply({ id, status: "accepted" }, json));
+              return;
+            }
+            await job.firstAttempt;
+            reply(formatReply({ id, status: "ok" }, json));
+          })
+          .catch((error) => {
+            reply(formatReply(errorReply(id, error), json));
+          })
+          .finally(() => {
+            inFlight--;
+            finishIfDone();
+          });
+        return;
+      }
+      case "REPLAY": {
+        const { id, jobId } = request;
+        inFlight++;
+        JobQueue.replay(jobId ? (letter) => letter.id === jobId : undefined)
+          .then((count) => {
+            console.log(`[Queue] Replayed ${count} job(s) from dead-letter`);
+            reply(formatReply({ id, status: "ok" }, json));
+          })
+          .catch((error) => {
+            reply(formatReply(errorReply(id, error), json));
+          })
+          .finally(() => {
+            inFlight--;
+            finishIfDone();
+          });
+        return;
+      }
+      case "QUIT":
+        quitting = true;
+        finishIfDone();
+        return;
+    }
+  };
+
   client.on("data", (data) => {
-    let command = data.toString().trim();
-    console.log(`[${new Date().toISOString()}] Received:`, command);
-
-    client.write("OK\n");
-    client.end();
-
-    handleCommand(command)
-      .then(() => {
-        console.log(`[${new Date().toISOString()}] Processed:`, command);
-      })
-      .catch((error) => {
-        console.error(`[${new Date().toISOString()}] Error:`, error);
-      });
-
-    command = "";
-
-    // const command = data.toString().trim();
-    // handleCommand(command)
-    //   .then(() => {
-    //     client.write("OK\n");
-    //   })
-    //   .catch((err) => {
-    //     client.write(`ERROR: ${err.message}\n`);
-    //   })
-    //   .finally(() => {
-    //     client.end();
-    //   });
+    pending += data.toString();
+    const lines = pending.split("\n");
+    // Неполная строка ждёт перевода строки или конца данных: команда может прийти по частям
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      handleLine(line.trim());
+    }
+  });
+
+  client.on("end", () => {
+    // Последняя строка без перевода строки: так шлют команду старые клиенты
+    if (pending.trim() !== "") {
+      handleLine(pending.trim());
+      pending = "";
+    }
+    quitting = true;
+    finishIfDone();
+  });
+
+  client.on("close", () => {
+    socketClients.dec({});
   });
 
   client.on("error", (err) => {
@@ -62,17 +182,31 @@ server.listen(SOCKET_PATH, () => {
   fs.chmodSync(SOCKET_PATH, 0o666);
 });
 
+/**
+ * Обработчик сигнала SIGHUP: перечитывает nas-config.json без перезапуска демона
+ * Если новый конфиг некорректен, продолжаем работать со старым
+ */
+process.on("SIGHUP", () => {
+  reloadConfig();
+});
+
 /**
  * Обработчик сигнала SIGINT (Ctrl+C) для корректного завершения работы сервера
  * - Закрывает socket сервер
  * - Удаляет файл Unix socket
+ * - Закрывает listener'ы метрик и HTTP API поддержки
+ * - Останавливает очередь задач (незавершённые остаются на диске)
+ * - Закрывает соединения с NAS из пула
  * - Завершает процесс с кодом 0 (успешное завершение)
  */
 process.on("SIGINT", () => {
   console.log("\nShutting down...");
   server.close();
+  metricsServer?.close();
+  adminServer?.close();
   if (fs.existsSync(SOCKET_PATH)) {
     fs.unlinkSync(SOCKET_PATH);
   }
-  process.exit(0);
+  JobQueue.stop();
+  ConnectionManager.closeAll().finally(() => process.exit(0));
 });
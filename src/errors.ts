@@ -0,0 +1,154 @@
+/**
+ * Категории '!trap' из документации RouterOS API (атрибут =category=)
+ */
+export const TrapCategory = {
+  0: "missing item or command",
+  1: "argument value failure",
+  2: "execution of command interrupted",
+  3: "scripting related failure",
+  4: "general failure",
+  5: "API related failure",
+  6: "TTY related failure",
+  7: "value generated with :return command",
+} as const;
+
+/**
+ * Слова команды, значения которых нельзя выводить в логи и сообщения об ошибках
+ */
+const SECRET_WORDS = ["=password=", "=response="];
+
+/**
+ * Возвращает слова команды, в которых значения паролей заменены на "***"
+ * @param command - Слова команды RouterOS API
+ */
+export function maskSecrets(command: string[]): string[] {
+  return command.map((word) => {
+    const secret = SECRET_WORDS.find((prefix) => word.startsWith(prefix));
+    return secret ? `${secret}***` : word;
+  });
+}
+
+/**
+ * Возвращает команду в виде строки для логов, скрывая пароли
+ * @param command - Слова команды RouterOS API
+ */
+export function describeCommand(command: string[]): string {
+  return maskSecrets(command).join(" ");
+}
+
+/**
+ * Базовая ошибка работы с RouterOS
+ * nas - адрес NAS, на котором произошла ошибка
+ * command - команда, выполнение которой не удалось (если известна); пароли в ней скрыты
+ *           сразу, чтобы не попасть в JSON, util.inspect, журнал аудита и dead-letter
+ */
+export class RouterOSError extends Error {
+  readonly command?: string[];
+
+  constructor(
+    message: string,
+    readonly nas: string,
+    command?: string[],
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+    this.command = command && maskSecrets(command);
+  }
+
+  /**
+   * Сообщение с контекстом: NAS и команда (без паролей)
+   */
+  toString(): string {
+    const command = this.command ? ` [${describeCommand(this.command)}]` : "";
+    return `${this.name}: ${this.message} (nas ${this.nas})${command}`;
+  }
+}
+
+/**
+ * RouterOS ответил '!trap' на команду
+ * category - числовая категория ошибки (см. TrapCategory), если роутер её прислал
+ */
+export class RouterOSTrapError extends RouterOSError {
+  constructor(
+    message: string,
+    nas: string,
+    command: string[],
+    readonly category?: number,
+  ) {
+    super(message, nas, command);
+  }
+
+  /**
+   * Текстовое описание категории
+   */
+  get categoryName(): string | undefined {
+    return this.category === undefined
+      ? undefined
+      : TrapCategory[this.category as keyof typeof TrapCategory];
+  }
+}
+
+/**
+ * RouterOS прислал '!fatal' и закрыл соединение
+ */
+export class RouterOSFatalError extends RouterOSError {}
+
+/**
+ * Команды изменения выполнены, но записи, перечитанные с роутера, не совпали с требуемыми
+ */
+export class VerificationError extends RouterOSError {}
+
+/**
+ * Роутер отклонил логин/пароль
+ */
+export class LoginError extends RouterOSError {}
+
+/**
+ * Не удалось установить соединение или оно оборвалось во время выполнения команды
+ */
+export class ConnectionError extends RouterOSError {}
+
+/**
+ * Роутер не ответил на команду за отведённое время
+ */
+export class CommandTimeoutError extends ConnectionError {}
+
+/**
+ * Сертификат роутера не прошёл проверку (CA, имя или закреплённый отпечаток)
+ */
+export class TlsVerificationError extends ConnectionError {}
+
+/**
+ * Некорректный запрос от биллинга: неизвестное действие, не хватает параметров и т.п.
+ */
+export class RequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+/**
+ * NAS не описан в конфиге или выключен
+ */
+export class UnknownNasError extends RequestError {
+  constructor(readonly nas: string, reason = "is not configured") {
+    super(`NAS ${nas} ${reason}`);
+    this.name = "UnknownNasError";
+  }
+}
+
+/**
+ * Конфиг не прошёл проверку схемы
+ * issues - список проблем вида "servers.10.77.0.5.port: must be an integer 1..65535"
+ */
+export class ConfigError extends Error {
+  constructor(
+    readonly file: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid config ${file}:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigError";
+  }
+}
@@ -0,0 +1,370 @@
+// job-queue.ts
+// Персистентная очередь команд биллинга между Unix socket и handleCommand.
+//
+// - Команда сначала записывается на диск (JOBS_FILE), и только потом демон отвечает биллингу.
+//   После перезапуска демона незавершённые задачи выполняются заново.
+//   Каталог очереди можно задать переменной окружения QUEUE_DIR.
+//   Пароль абонента (--password) на диск не попадает: обработчикам он не нужен.
+// - Задачи одного абонента (ключ — его IP) выполняются строго по очереди:
+//   "start" и "stop" для одного IP не могут выполниться параллельно или в обратном порядке.
+//   Изменения из admin API выполняются через exclusive() по тому же ключу.
+// - Временные ошибки (нет связи с NAS, таймаут, '!fatal') повторяются с экспоненциальной паузой.
+// - Задачи, которые не удалось выполнить (некорректный запрос, '!trap', NAK, исчерпаны попытки),
+//   дописываются в DEAD_LETTER_FILE (JSON Lines); их можно посмотреть и вернуть в очередь через replay().
+
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { executeRequest, parseCommand } from "./controller";
+import { withoutPassword } from "./request-parser";
+import { CoANakError } from "./radius-coa";
+import { RequestError, RouterOSTrapError } from "./errors";
+import { deadLetters, jobs } from "./metrics";
+
+const QUEUE_DIR = process.env.QUEUE_DIR ?? path.join(__dirname, "..", "queue");
+const JOBS_FILE = path.join(QUEUE_DIR, "jobs.json");
+const DEAD_LETTER_FILE = path.join(QUEUE_DIR, "dead-letter.jsonl");
+
+/**
+ * Права файлов очереди: в командах логины и адреса абонентов
+ */
+const FILE_MODE = 0o600;
+
+/**
+ * Параметры повторов
+ * maxAttempts - после стольких неудачных попыток задача уходит в dead-letter
+ * backoffBase/backoffMax - начальная и максимальная пауза между попытками в мс
+ */
+const RETRY_OPTIONS = {
+  maxAttempts: 10,
+  backoffBase: 2_000,
+  backoffMax: 10 * 60_000,
+};
+
+/**
+ * Задача в очереди
+ * command - строка команды биллинга без --password
+ * key - ключ сериализации: IP абонента
+ * nextAttemptAt - время (мс), раньше которого задачу не запускать
+ */
+export interface Job {
+  id: string;
+  command: string;
+  key: string;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+/**
+ * Запись dead-letter файла
+ */
+export interface DeadLetter extends Job {
+  failedAt: string;
+  error: string;
+}
+
+/**
+ * Принятая задача
+ * firstAttempt - завершается после первой попытки выполнения: успешно или с её ошибкой
+ *                (при временной ошибке задача остаётся в очереди и будет повторена)
+ */
+export interface JobHandle {
+  id: string;
+  firstAttempt: Promise<void>;
+}
+
+/**
+ * Статистика очереди
+ */
+export interface JobQueueStats {
+  pending: number;
+  running: number;
+  retrying: number;
+}
+
+/**
+ * Ключ сериализации задач абонента
+ * NAS в ключ не входит: без --nas или с прежним NAS абонента он станет известен только
+ * при выполнении (nas-locator.ts), а задачи абонента должны идти по порядку независимо от --nas
+ */
+function jobKey(ip: string): string {
+  return ip;
+}
+
+/**
+ * Ошибки, которые повтором не исправить
+ */
+function isPermanent(error: unknown): boolean {
+  return (
+    error instanceof RequestError ||
+    error instanceof RouterOSTrapError ||
+    error instanceof CoANakError
+  );
+}
+
+class JobQueue {
+  private jobs: Job[] = [];
+  private running = new Set<string>();
+  private held = new Set<string>();
+  private released = new Map<string, (() => void)[]>();
+  private waiters = new Map<string, { resolve: () => void; reject: (e: unknown) => void }>();
+  private timer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private started = false;
+
+  /**
+   * Загружает незавершённые задачи с диска и начинает их выполнение
+   * Повреждённый файл очереди (например, после сбоя во время записи) не мешает запуску:
+   * он переименовывается в jobs.json.corrupt-<время> для разбора, очередь начинается пустой
+   */
+  start(): void {
+    if (this.started) return;
+    fs.mkdirSync(QUEUE_DIR, { recursive: true });
+    if (fs.existsSync(JOBS_FILE)) {
+      this.jobs = this.restore();
+    }
+    this.started = true;
+    this.pump();
+  }
+
+  /**
+   * Останавливает запуск новых задач (выполняющиеся доработают, очередь остаётся на диске)
+   */
+  stop(): void {
+    this.started = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Проверяет команду, сохраняет её на диск и ставит в очередь
+   * @param command - Строка команды биллинга
+   * @returns Описание задачи после того, как она записана на диск
+   * @throws RequestError, UnknownNasError если команда некорректна (в очередь не попадает)
+   */
+  async enqueue(command: string): Promise<JobHandle> {
+    const request = parseCommand(command);
+    const job: Job = {
+      id: crypto.randomUUID(),
+      command: withoutPassword(command),
+      key: jobKey(request.ip),
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: 0,
+    };
+    const firstAttempt = new Promise<void>((resolve, reject) => {
+      this.waiters.set(job.id, { resolve, reject });
+    });
+    // Результат первой попытки может никого не интересовать (SUBMIT)
+    firstAttempt.catch(() => {});
+
+    this.jobs.push(job);
+    await this.save();
+    this.pump();
+    return { id: job.id, firstAttempt };
+  }
+
+  /**
+   * Выполняет действие вне очереди, но по очереди с задачами того же абонента:
+   * ждёт окончания выполняющейся задачи и не даёт запустить следующую, пока действие не завершится
+   * @param ip - IP адрес абонента
+   * @param action - Изменение на NAS
+   */
+  async exclusive<R>(ip: string, action: () => Promise<R>): Promise<R> {
+    const key = jobKey(ip);
+    while (this.running.has(key) || this.held.has(key)) {
+      await new Promise<void>((resolve) => {
+        this.released.set(key, [...(this.released.get(key) ?? []), resolve]);
+      });
+    }
+    this.held.add(key);
+    try {
+      return await action();
+    } finally {
+      this.held.delete(key);
+      this.release(key);
+      this.pump();
+    }
+  }
+
+  /**
+   * Возвращает задачи из dead-letter файла обратно в очередь
+   * @param filter - Отбор записей; по умолчанию все
+   * @returns Количество возвращённых задач
+   */
+  async replay(filter: (letter: DeadLetter) => boolean = () => true): Promise<number> {
+    const letters = this.readDeadLetters();
+    const keep = letters.filter((letter) => !filter(letter));
+    const replayed = letters.filter(filter);
+    if (replayed.length === 0) return 0;
+
+    for (const letter of replayed) {
+      this.jobs.push({
+        id: letter.id,
+        command: letter.command,
+        key: letter.key,
+        attempts: 0,
+        createdAt: letter.createdAt,
+        nextAttemptAt: 0,
+      });
+    }
+    await this.save();
+    const lines = keep.map((l) => JSON.stringify(l) + "\n").join("");
+    fs.writeFileSync(DEAD_LETTER_FILE, lines, { mode: FILE_MODE });
+    this.pump();
+    return replayed.length;
+  }
+
+  /**
+   * Читает dead-letter файл
+   */
+  readDeadLetters(): DeadLetter[] {
+    if (!fs.existsSync(DEAD_LETTER_FILE)) return [];
+    return fs
+      .readFileSync(DEAD_LETTER_FILE, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line));
+  }
+
+  getStats(): JobQueueStats {
+    return {
+      pending: this.jobs.length - this.running.size,
+      running: this.running.size,
+      retrying: this.jobs.filter((job) => job.attempts > 0).length,
+    };
+  }
+
+  /**
+   * Запускает все задачи, которые можно выполнить сейчас:
+   * первая задача каждого ключа, если по этому ключу ничего не выполняется и пауза истекла
+   */
+  private pump() {
+    this.updateMetrics();
+    if (!this.started) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const now = Date.now();
+    const seen = new Set<string>();
+    let wakeAt = Infinity;
+    for (const job of this.jobs) {
+      if (seen.has(job.key)) continue;
+      seen.add(job.key);
+      if (this.running.has(job.key) || this.held.has(job.key)) continue;
+      if (job.nextAttemptAt > now) {
+        wakeAt = Math.min(wakeAt, job.nextAttemptAt);
+        continue;
+      }
+      void this.run(job);
+    }
+
+    if (wakeAt !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), wakeAt - now);
+    }
+  }
+
+  private async run(job: Job) {
+    this.running.add(job.key);
+    this.updateMetrics();
+    job.attempts++;
+    let error: unknown = null;
+    try {
+      await executeRequest(parseCommand(job.command));
+      console.log(`[${new Date().toISOString()}] Processed:`, job.command);
+      this.remove(job);
+    } catch (err) {
+      error = err;
+      job.lastError = String(err);
+      const attempt = `attempt ${job.attempts}/${RETRY_OPTIONS.maxAttempts}`;
+      console.error(`[${new Date().toISOString()}] Error (${attempt}):`, job.lastError);
+      if (isPermanent(err) || job.attempts >= RETRY_OPTIONS.maxAttempts) {
+        this.remove(job);
+        this.deadLetter(job, err);
+      } else {
+        const backoff = RETRY_OPTIONS.backoffBase * 2 ** (job.attempts - 1);
+        job.nextAttemptAt = Date.now() + Math.min(backoff, RETRY_OPTIONS.backoffMax);
+      }
+    } finally {
+      this.running.delete(job.key);
+      this.release(job.key);
+      await this.save().catch((err) => console.error("[Queue] Failed to save jobs:", err));
+      this.settle(job.id, error);
+      this.pump();
+    }
+  }
+
+  private updateMetrics() {
+    const stats = this.getStats();
+    for (const state of ["pending", "running", "retrying"] as const) {
+      jobs.set({ state }, stats[state]);
+    }
+  }
+
+  /**
+   * Будит exclusive(), ожидающие освобождения ключа
+   */
+  private release(key: string) {
+    const waiting = this.released.get(key) ?? [];
+    this.released.delete(key);
+    waiting.forEach((resolve) => resolve());
+  }
+
+  private remove(job: Job) {
+    this.jobs = this.jobs.filter((j) => j !== job);
+  }
+
+  private settle(id: string, error: unknown) {
+    const waiter = this.waiters.get(id);
+    if (!waiter) return;
+    this.waiters.delete(id);
+    if (error) waiter.reject(error);
+    else waiter.resolve();
+  }
+
+  private deadLetter(job: Job, error: unknown) {
+    const letter: DeadLetter = {
+      ...job,
+      failedAt: new Date().toISOString(),
+      error: String(error),
+    };
+    console.error(`[Queue] Job ${job.id} moved to dead-letter: ${letter.error}`);
+    deadLetters.inc({});
+    fs.mkdirSync(QUEUE_DIR, { recursive: true });
+    fs.appendFileSync(DEAD_LETTER_FILE, JSON.stringify(letter) + "\n", { mode: FILE_MODE });
+  }
+
+  private restore(): Job[] {
+    try {
+      const jobs: unknown = JSON.parse(fs.readFileSync(JOBS_FILE, "utf-8"));
+      if (!Array.isArray(jobs)) throw new Error("not a list of jobs");
+      console.log(`[Queue] Restored ${jobs.length} pending job(s)`);
+      return jobs;
+    } catch (err) {
+      const aside = `${JOBS_FILE}.corrupt-${Date.now()}`;
+      fs.renameSync(JOBS_FILE, aside);
+      console.error(`[Queue] Cannot read ${JOBS_FILE}, moved to ${aside}:`, String(err));
+      return [];
+    }
+  }
+
+  /**
+   * Атомарно записывает очередь на диск (через временный файл и rename).
+   * Записи выполняются последовательно, каждая сохраняет актуальное состояние
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => {})
+      .then(async () => {
+        const tmp = `${JOBS_FILE}.tmp`;
+        await fs.promises.mkdir(QUEUE_DIR, { recursive: true });
+        await fs.promises.writeFile(tmp, JSON.stringify(this.jobs, null, 2), { mode: FILE_MODE });
+        await fs.promises.rename(tmp, JOBS_FILE);
+      });
+    return this.saving;
+  }
+}
+
+export default new JobQueue();
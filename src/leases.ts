@@ -0,0 +1,81 @@
+// leases.ts
+// Статический DHCP lease абонента IPoE: какие свойства записываются в /ip/dhcp-server/lease
+// и как понять, что запись на роутере уже такая, как нужно.
+//
+// - Lease ищется по адресу, а если по адресу его нет — по MAC на том же сервере: так смена
+//   IP или MAC в биллинге обновляет существующую запись, а не создаёт вторую.
+// - Динамический lease с тем же адресом сначала делается статическим (make-static).
+// - В комментарии lease — логин абонента: "login=ivanov".
+
+import { RouterOSLease } from "./api.d";
+
+/**
+ * Статический lease абонента
+ * address - IPv4 адрес абонента
+ * mac - MAC в записи RouterOS ("AA:BB:CC:DD:EE:FF")
+ * server - DHCP сервер на NAS
+ * leaseTime - время аренды ("1d"); без него — из настроек сервера
+ * addressLists - address-list, куда RouterOS добавляет адрес при выдаче
+ * login - логин абонента для комментария
+ */
+export interface StaticLease {
+  address: string;
+  mac: string;
+  server: string;
+  leaseTime?: string;
+  addressLists?: string[];
+  login: string;
+}
+
+/**
+ * Комментарий lease абонента
+ */
+export function leaseComment(login: string): string {
+  return `login=${login}`;
+}
+
+/**
+ * Свойства /ip/dhcp-server/lease для lease абонента
+ */
+export function leaseAttributes(lease: StaticLease): Record<string, string> {
+  const attributes: Record<string, string> = {
+    address: lease.address,
+    "mac-address": lease.mac,
+    server: lease.server,
+    "address-lists": (lease.addressLists ?? []).join(","),
+    comment: leaseComment(lease.login),
+  };
+  if (lease.leaseTime !== undefined) {
+    attributes["lease-time"] = lease.leaseTime;
+  }
+  return attributes;
+}
+
+/**
+ * Свойства, значения которых в записи на роутере отличаются от требуемых
+ * MAC сравнивается без учёта регистра, address-lists — без учёта порядка
+ */
+export function leaseChanges(
+  lease: RouterOSLease,
+  wanted: Record<string, string>,
+): Record<string, string> {
+  const current = lease as unknown as Record<string, string | undefined>;
+  const normalize = (key: string, value: string | undefined) => {
+    if (value === undefined) return "";
+    if (key === "mac-address") return value.toUpperCase();
+    if (key === "address-lists") return value.split(",").filter(Boolean).sort().join(",");
+    return value;
+  };
+  return Object.fromEntries(
+    Object.entries(wanted).filter(
+      ([key, value]) => normalize(key, current[`=${key}`]) !== normalize(key, value),
+    ),
+  );
+}
+
+/**
+ * RouterOS отдаёт флаги строками "true"/"false"
+ */
+export function isDynamic(lease: RouterOSLease): boolean {
+  return String(lease["=dynamic"]) === "true";
+}
@@ -0,0 +1,254 @@
+// metrics.ts
+// Метрики демона в текстовом формате Prometheus (exposition format 0.0.4).
+//
+// Метрики регистрируются при создании и отдаются HTTP listener'ом на GET /metrics.
+// Listener включается разделом "metrics" в nas-config.json: { "port": 9464, "host": "127.0.0.1" }.
+
+import * as http from "http";
+import { MetricsConfig } from "./config-preloader";
+
+type Labels<L extends string> = Record<L, string>;
+
+/**
+ * Границы корзин гистограмм длительности по умолчанию, в секундах
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const registry: Metric<string>[] = [];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+  if (names.length === 0) return "";
+  const pairs = names.map((name, i) => `${name}="${escapeLabel(values[i])}"`);
+  return `{${pairs.join(",")}}`;
+}
+
+abstract class Metric<L extends string> {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly L[],
+    private readonly type: "counter" | "gauge" | "histogram",
+  ) {
+    registry.push(this);
+  }
+
+  /**
+   * Значения меток в порядке labelNames
+   */
+  protected values(labels: Labels<L>): string[] {
+    return this.labelNames.map((name) => String(labels[name]));
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    return [...lines, ...this.samples()].join("\n") + "\n";
+  }
+
+  protected abstract samples(): string[];
+}
+
+/**
+ * Счётчик: только растёт
+ */
+export class Counter<L extends string = never> extends Metric<L> {
+  private series = new Map<string, { values: string[]; value: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly L[] = []) {
+    super(name, help, labelNames, "counter");
+  }
+
+  inc(labels: Labels<L>, value = 1): void {
+    const values = this.values(labels);
+    const key = JSON.stringify(values);
+    const series = this.series.get(key) ?? { values, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ values, value }) => `${this.name}${formatLabels(this.labelNames, values)} ${value}`,
+    );
+  }
+}
+
+/**
+ * Текущее значение: растёт и убывает
+ */
+export class Gauge<L extends string = never> extends Metric<L> {
+  private series = new Map<string, { values: string[]; value: number }>();
+
+  constructor(name: string, help: string, labelNames: readonly L[] = []) {
+    super(name, help, labelNames, "gauge");
+  }
+
+  set(labels: Labels<L>, value: number): void {
+    const values = this.values(labels);
+    this.series.set(JSON.stringify(values), { values, value });
+  }
+
+  inc(labels: Labels<L>, value = 1): void {
+    const values = this.values(labels);
+    const current = this.series.get(JSON.stringify(values))?.value ?? 0;
+    this.set(labels, current + value);
+  }
+
+  dec(labels: Labels<L>, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ values, value }) => `${this.name}${formatLabels(this.labelNames, values)} ${value}`,
+    );
+  }
+}
+
+/**
+ * Гистограмма: распределение длительностей по корзинам
+ */
+export class Histogram<L extends string = never> extends Metric<L> {
+  private series = new Map<string, { values: string[]; counts: number[]; sum: number }>();
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: readonly L[] = [],
+    private readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames, "histogram");
+  }
+
+  observe(labels: Labels<L>, value: number): void {
+    const values = this.values(labels);
+    const key = JSON.stringify(values);
+    const series = this.series.get(key) ?? {
+      values,
+      counts: new Array(this.buckets.length + 1).fill(0),
+      sum: 0,
+    };
+    // Последняя корзина — "+Inf"
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]++;
+    series.sum += value;
+    this.series.set(key, series);
+  }
+
+  /**
+   * Запускает замер длительности
+   * @returns функция, которая записывает прошедшее время в секундах
+   */
+  startTimer(labels: Labels<L>): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    const names = [...this.labelNames, "le"];
+    for (const { values, counts, sum } of this.series.values()) {
+      let cumulative = 0;
+      const bounds = [...this.buckets.map(String), "+Inf"];
+      bounds.forEach((bound, i) => {
+        cumulative += counts[i];
+        lines.push(`${this.name}_bucket${formatLabels(names, [...values, bound])} ${cumulative}`);
+      });
+      const labels = formatLabels(this.labelNames, values);
+      lines.push(`${this.name}_sum${labels} ${sum}`, `${this.name}_count${labels} ${cumulative}`);
+    }
+    return lines;
+  }
+}
+
+// ─────────────────────────── Метрики демона ───────────────────────────
+
+export const socketClients = new Gauge(
+  "mikrotik_socket_clients",
+  "Connected Unix socket clients",
+);
+
+export const socketRequests = new Counter(
+  "mikrotik_socket_requests_total",
+  "Lines received on the Unix socket by verb (LEGACY for old-style command lines)",
+  ["verb"],
+);
+
+export const commandsTotal = new Counter(
+  "mikrotik_commands_total",
+  "Billing commands executed by action, NAS and result",
+  ["action", "nas", "result"],
+);
+
+export const commandDuration = new Histogram(
+  "mikrotik_command_duration_seconds",
+  "Billing command execution time by action and NAS",
+  ["action", "nas"],
+);
+
+export const apiCommandsTotal = new Counter(
+  "mikrotik_api_commands_total",
+  "RouterOS API commands by NAS, command path and result",
+  ["nas", "command", "result"],
+);
+
+export const apiCommandDuration = new Histogram(
+  "mikrotik_api_command_duration_seconds",
+  "RouterOS API command time by NAS and command path",
+  ["nas", "command"],
+);
+
+export const trapsTotal = new Counter(
+  "mikrotik_routeros_traps_total",
+  "RouterOS '!trap' replies by NAS and category",
+  ["nas", "category"],
+);
+
+export const connectionFailures = new Counter(
+  "mikrotik_connection_failures_total",
+  "Failed connection attempts to NAS by reason (connect, tls, login)",
+  ["nas", "reason"],
+);
+
+export const jobs = new Gauge(
+  "mikrotik_jobs",
+  "Jobs in the persistent queue by state (pending, running, retrying)",
+  ["state"],
+);
+
+export const deadLetters = new Counter(
+  "mikrotik_jobs_dead_lettered_total",
+  "Jobs moved to the dead-letter file",
+);
+
+/**
+ * Возвращает все метрики в текстовом формате Prometheus
+ */
+export function renderMetrics(): string {
+  return registry.map((metric) => metric.render()).join("");
+}
+
+/**
+ * Запускает HTTP listener, отдающий метрики на GET /metrics
+ * @param config - Раздел "metrics" из nas-config.json
+ */
+export function startMetricsServer(config: MetricsConfig): http.Server {
+  const server = http.createServer((req, res) => {
+    if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not found\n");
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+    res.end(renderMetrics());
+  });
+  server.on("error", (err) => {
+    console.error("[Metrics] Listener error:", err);
+  });
+  server.listen(config.port, config.host, () => {
+    console.log(`[Metrics] Listening on http://${config.host}:${config.port}/metrics`);
+  });
+  return server;
+}
@@ -0,0 +1,155 @@
+// nas-locator.ts
+// Поиск NAS, на котором живёт абонент, по всем NAS из конфига.
+//
+// - Биллинг может не передать --nas, передать NAS, которого нет в конфиге, или прежний BRAS
+//   абонента, который переехал на другой. Тогда NAS находится по следам абонента:
+//   активной сессии, очереди (по имени "sub-<логин>" или по адресу) и DHCP lease.
+// - Все NAS опрашиваются параллельно; NAS, который не ответил, пропускается с ошибкой в логе.
+//   Если абонент не найден, а какой-то NAS не ответил, это не "абонента нет": поиск
+//   завершается ConnectionError, и задача биллинга повторяется позже.
+//   NAS с mode "coa" не опрашиваются: доступа к RouterOS API у демона к ним нет.
+// - Результат кэшируется по логину на CACHE_TTL; успешные start и delete обновляют кэш сами
+//   (remember/forget), перезагрузка конфига его сбрасывает.
+// - Абонент, найденный на нескольких NAS, — признак мусора после переезда: пишется предупреждение.
+
+import RouterApi from "./api";
+import { getNasList, NasConfig, NasServer, onConfigReload } from "./config-preloader";
+import { ConnectionError } from "./errors";
+
+/**
+ * Сколько помнить, где найден абонент, мс
+ */
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Абонент, которого ищем
+ * login - логин из биллинга
+ * ip - IPv4 адрес абонента
+ */
+export interface LocatorQuery {
+  login: string;
+  ip: string;
+}
+
+/**
+ * Следы абонента на одном NAS: количество найденных записей
+ */
+export interface NasLocation {
+  nas: NasServer;
+  sessions: number;
+  queues: number;
+  leases: number;
+}
+
+interface CacheEntry {
+  nas: NasServer[];
+  expires: number;
+}
+
+/**
+ * Сессия — самый надёжный признак того, где абонент сейчас; lease — самый слабый
+ */
+function compareLocations(a: NasLocation, b: NasLocation): number {
+  return b.sessions - a.sessions || b.queues - a.queues || b.leases - a.leases;
+}
+
+class NasLocator {
+  private cache = new Map<string, CacheEntry>();
+
+  constructor() {
+    onConfigReload(() => this.cache.clear());
+  }
+
+  /**
+   * Опрашивает все NAS с доступом по API без кэша
+   * @param query - Логин и IP абонента
+   * @returns NAS, на которых есть следы абонента; первым — NAS с активной сессией
+   * @throws ConnectionError если абонент не найден, но не ответил хотя бы один NAS
+   */
+  async find(query: LocatorQuery): Promise<NasLocation[]> {
+    const servers = getNasList().filter((nas) => nas.mode === "api");
+    const results = await Promise.allSettled(servers.map((nas) => this.inspect(nas, query)));
+    const locations: NasLocation[] = [];
+    const failed: NasServer[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        const nas = servers[index].address;
+        console.error(`[Locator] Failed to search ${query.login} on ${nas}:`, result.reason);
+        failed.push(nas);
+        return;
+      }
+      const location = result.value;
+      if (location.sessions + location.queues + location.leases > 0) {
+        locations.push(location);
+      }
+    });
+    if (locations.length === 0 && failed.length > 0) {
+      const message = `${query.login} (${query.ip}) not found, NAS did not respond`;
+      throw new ConnectionError(message, failed.join(", "));
+    }
+    return locations.sort(compareLocations);
+  }
+
+  /**
+   * NAS абонента: из кэша или опросом всех NAS
+   * @param query - Логин и IP абонента
+   * @param refresh - Не доверять кэшу и опросить NAS заново
+   * @returns NAS абонента, первым — наиболее вероятный; пустой список, если не найден
+   * @throws ConnectionError если абонент не найден, но не ответил хотя бы один NAS
+   */
+  async locate(query: LocatorQuery, refresh = false): Promise<NasServer[]> {
+    const cached = this.cache.get(query.login);
+    if (!refresh && cached && cached.expires > Date.now()) {
+      return cached.nas;
+    }
+    const locations = await this.find(query);
+    const nas = locations.map((location) => location.nas);
+    if (nas.length > 1) {
+      const { login, ip } = query;
+      console.warn(`[Locator] ${login} (${ip}) found on several NAS: ${nas.join(", ")}`);
+    }
+    if (nas.length > 0) {
+      this.cache.set(query.login, { nas, expires: Date.now() + CACHE_TTL });
+    } else {
+      this.cache.delete(query.login);
+    }
+    return nas;
+  }
+
+  /**
+   * Запоминает NAS абонента без опроса (после успешной команды на нём)
+   */
+  remember(login: string, nas: NasServer): void {
+    this.cache.set(login, { nas: [nas], expires: Date.now() + CACHE_TTL });
+  }
+
+  /**
+   * Забывает NAS абонента (учётная запись удалена)
+   */
+  forget(login: string): void {
+    this.cache.delete(login);
+  }
+
+  /**
+   * Ищет следы абонента на одном NAS: все запросы выполняются параллельно
+   */
+  private async inspect(nas: NasConfig, { login, ip }: LocatorQuery): Promise<NasLocation> {
+    const [sessions, byName, byTarget, leases] = await Promise.all([
+      Promise.all(
+        nas.sessions.map((kind) => RouterApi.getActiveSessions(nas.address, kind, { login })),
+      ),
+      RouterApi.getSubscriberQueues(nas.address, login),
+      RouterApi.getQueues(nas.address, ip),
+      RouterApi.getLease(nas.address, ip),
+    ]);
+    const queues = new Set([...byName, ...byTarget].map((queue) => queue["=.id"]));
+    return {
+      nas: nas.address,
+      sessions: sessions.reduce((count, found) => count + found.size, 0),
+      queues: queues.size,
+      leases: leases.size,
+    };
+  }
+}
+
+export default new NasLocator();
@@ -0,0 +1,177 @@
+// protocol.ts
+// Построчный протокол Unix socket демона.
+//
+// Устаревший режим (по умолчанию, совместим со старыми обработчиками биллинга):
+//   клиент шлёт одну или несколько строк "--action start --nas ...", на каждую получает "OK"
+//   (команда принята в очередь) или "ERROR: <message>", после ответа соединение закрывается.
+//
+// Версия 1 включается первой строкой "PROTO 1" (текстовые ответы) или "PROTO 1 json" (JSON-ответы):
+//   PROTO 1 [json]         -> PROTO 1 (в режиме json: {"proto":1})
+//   EXEC <id> <params>     -> OK <id> | ERROR <id> <code> <message>   (ждёт первой попытки выполнения)
+//   SUBMIT <id> <params>   -> ACCEPTED <id> | ERROR <id> <code> <message>   (выполнение в фоне)
+// Команды EXEC и SUBMIT проходят через персистентную очередь (job-queue.ts): ответ отправляется
+// только после записи на диск, временные ошибки повторяются и после ответа ERROR на EXEC.
+//   REPLAY <id> [job-id]   -> OK <id> | ERROR ...   (вернуть задачу или все задачи из dead-letter в очередь)
+//   QUIT                   -> соединение закрывается после ответов на уже принятые запросы
+// В одном соединении можно отправить сколько угодно запросов; ответы приходят по мере выполнения,
+// сопоставлять их с запросами нужно по <id>.
+
+import { CoANakError } from "./radius-coa";
+import {
+  CommandTimeoutError,
+  ConnectionError,
+  LoginError,
+  RequestError,
+  RouterOSFatalError,
+  RouterOSTrapError,
+  UnknownNasError,
+} from "./errors";
+
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Коды ошибок в ответах "ERROR <id> <code> <message>"
+ */
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "UNKNOWN_VERB"
+  | "UNSUPPORTED_VERSION"
+  | "ROUTEROS_TRAP"
+  | "ROUTEROS_FATAL"
+  | "LOGIN_FAILED"
+  | "CONNECTION_FAILED"
+  | "TIMEOUT"
+  | "UNKNOWN_NAS"
+  | "COA_NAK"
+  | "INTERNAL";
+
+/**
+ * Разобранная строка запроса версии 1
+ */
+export type ProtocolRequest =
+  | { verb: "PROTO"; version: number; json: boolean }
+  | { verb: "EXEC" | "SUBMIT"; id: string; command: string }
+  | { verb: "REPLAY"; id: string; jobId?: string }
+  | { verb: "QUIT" };
+
+/**
+ * Ответ на запрос: успех, принят к выполнению или ошибка
+ */
+export type ProtocolReply =
+  | { id: string; status: "ok" | "accepted" }
+  | { id: string; status: "error"; code: ErrorCode; message: string; category?: number };
+
+/**
+ * Ошибка разбора строки протокола; id известен, если его удалось прочитать
+ */
+export class ProtocolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly id = "-",
+  ) {
+    super(message);
+    this.name = "ProtocolError";
+  }
+}
+
+/**
+ * Проверяет, что строка — начало сессии версии 1 ("PROTO ...")
+ */
+export function isHandshake(line: string): boolean {
+  return /^PROTO(\s|$)/.test(line);
+}
+
+/**
+ * Разбирает строку запроса версии 1
+ * @param line - Строка без перевода строки
+ * @throws ProtocolError при неизвестной команде, неверном формате или версии
+ */
+export function parseRequest(line: string): ProtocolRequest {
+  const [verb, id, ...rest] = line.trim().split(/\s+/);
+  switch (verb) {
+    case "PROTO": {
+      const version = Number(id);
+      if (version !== PROTOCOL_VERSION) {
+        throw new ProtocolError("UNSUPPORTED_VERSION", `Unsupported protocol version ${id}`);
+      }
+      if (rest.length > 1 || (rest.length === 1 && rest[0] !== "json")) {
+        throw new ProtocolError("BAD_REQUEST", `Unknown protocol option ${rest.join(" ")}`);
+      }
+      return { verb, version, json: rest[0] === "json" };
+    }
+    case "EXEC":
+    case "SUBMIT": {
+      if (!id) {
+        throw new ProtocolError("BAD_REQUEST", "Request id is required");
+      }
+      // Параметры берём из исходной строки, чтобы не потерять пробелы в значениях
+      const command = line.trim().slice(verb.length).trim().slice(id.length).trim();
+      if (!command) {
+        throw new ProtocolError("BAD_REQUEST", "Command parameters are required", id);
+      }
+      return { verb, id, command };
+    }
+    case "REPLAY":
+      if (!id) {
+        throw new ProtocolError("BAD_REQUEST", "Request id is required");
+      }
+      return { verb, id, jobId: rest[0] };
+    case "QUIT":
+      return { verb };
+    default:
+      throw new ProtocolError("UNKNOWN_VERB", `Unknown verb ${verb}`, id);
+  }
+}
+
+/**
+ * Переводит ошибку выполнения команды в ответ протокола
+ * @param id - Идентификатор запроса
+ * @param error - Ошибка из handleCommand
+ */
+export function errorReply(id: string, error: unknown): ProtocolReply {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ProtocolError) {
+    return { id, status: "error", code: error.code, message };
+  }
+  if (error instanceof RouterOSTrapError) {
+    return { id, status: "error", code: "ROUTEROS_TRAP", message, category: error.category };
+  }
+  return { id, status: "error", code: errorCode(error), message };
+}
+
+function errorCode(error: unknown): ErrorCode {
+  if (error instanceof UnknownNasError) return "UNKNOWN_NAS";
+  if (error instanceof RequestError) return "BAD_REQUEST";
+  if (error instanceof RouterOSFatalError) return "ROUTEROS_FATAL";
+  if (error instanceof LoginError) return "LOGIN_FAILED";
+  if (error instanceof CommandTimeoutError) return "TIMEOUT";
+  if (error instanceof ConnectionError) return "CONNECTION_FAILED";
+  if (error instanceof CoANakError) return "COA_NAK";
+  return "INTERNAL";
+}
+
+/**
+ * Форматирует ответ в строку (с переводом строки) в текстовом или JSON виде
+ */
+export function formatReply(reply: ProtocolReply, json: boolean): string {
+  if (json) {
+    return JSON.stringify(reply) + "\n";
+  }
+  switch (reply.status) {
+    case "ok":
+      return `OK ${reply.id}\n`;
+    case "accepted":
+      return `ACCEPTED ${reply.id}\n`;
+    case "error":
+      // Сообщение должно остаться одной строкой
+      return `ERROR ${reply.id} ${reply.code} ${reply.message.replace(/\s+/g, " ")}\n`;
+  }
+}
+
+/**
+ * Форматирует ответ на "PROTO"
+ */
+export function formatHandshake(json: boolean): string {
+  return json ? JSON.stringify({ proto: PROTOCOL_VERSION }) + "\n" : `PROTO ${PROTOCOL_VERSION}\n`;
+}
@@ -0,0 +1,284 @@
+// query-builder.ts
+// Построение слов команд RouterOS API без интерполяции строк.
+//
+// Слово API имеет вид "<префикс><имя>=<значение>":
+//   =name=value      атрибут команды (add/set/remove)
+//   =.id=*1A         идентификатор записи
+//   =.proplist=a,b   какие свойства вернуть в ответах "!re"
+//   ?name=value      запрос print: свойство равно значению
+//   ?name            свойство присутствует
+//   ?-name           свойство отсутствует
+//   ?<name=value     свойство меньше значения
+//   ?>name=value     свойство больше значения
+//   ?#<ops>          операции над стеком результатов запроса:
+//                    | — ИЛИ, & — И, ! — НЕ, . — дублировать верхний,
+//                    <цифра> — скопировать элемент стека
+//
+// Имена свойств, пути команд и значения проверяются: значение из сокета биллинга не может
+// превратиться в другое свойство, другой оператор запроса или другую команду.
+
+import { RequestError } from "./errors";
+
+/**
+ * Путь команды: "/queue/simple", "/ip/dhcp-server/lease"
+ */
+const PATH_PATTERN = /^(\/[a-z0-9][a-z0-9-]*)+$/;
+
+/**
+ * Имя свойства: "max-limit", "mac-address", ".id", ".dead"
+ */
+const NAME_PATTERN = /^\.?[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Внутренний идентификатор записи RouterOS: "*1A"
+ */
+const ID_PATTERN = /^\*[0-9A-Fa-f]+$/;
+
+/**
+ * Операции стека запроса "?#"
+ */
+const STACK_OPS_PATTERN = /^[|&!.0-9]+$/;
+
+/**
+ * Управляющие символы (включая перевод строки и \0) в значениях недопустимы
+ */
+const CONTROL_CHARS = /[\x00-\x1f\x7f]/;
+
+/**
+ * Максимальная длина значения; длиннее RouterOS значения свойств не хранит
+ */
+const MAX_VALUE_LENGTH = 4096;
+
+export type QueryValue = string | number | boolean;
+
+/**
+ * Команды меню; все, кроме print и add, работают с записью по .id
+ */
+type Verb = "print" | "add" | "set" | "remove" | "enable" | "disable" | "make-static";
+
+function checkPath(path: string): string {
+  if (!PATH_PATTERN.test(path)) {
+    throw new RequestError(`Invalid command path: ${JSON.stringify(path)}`);
+  }
+  return path;
+}
+
+function checkName(name: string): string {
+  if (!NAME_PATTERN.test(name)) {
+    throw new RequestError(`Invalid property name: ${JSON.stringify(name)}`);
+  }
+  return name;
+}
+
+/**
+ * Приводит значение к строке RouterOS и проверяет его
+ * @throws RequestError если значение содержит управляющие символы или слишком длинное
+ */
+function checkValue(name: string, value: QueryValue): string {
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new RequestError(`Invalid value for ${name}: ${value}`);
+  }
+  const text = typeof value === "boolean" ? (value ? "yes" : "no") : String(value);
+  if (CONTROL_CHARS.test(text)) {
+    throw new RequestError(`Invalid value for ${name}: control characters are not allowed`);
+  }
+  if (text.length > MAX_VALUE_LENGTH) {
+    throw new RequestError(`Invalid value for ${name}: longer than ${MAX_VALUE_LENGTH} chars`);
+  }
+  return text;
+}
+
+function checkId(id: string): string {
+  if (!ID_PATTERN.test(id)) {
+    throw new RequestError(`Invalid record id: ${JSON.stringify(id)}`);
+  }
+  return id;
+}
+
+/**
+ * Построитель одной команды RouterOS API
+ * Создаётся через print/add/set/remove, слова команды возвращает build()
+ * @example
+ * print("/queue/simple").where("target", "10.0.0.5/32").proplist(".id", "max-limit").build()
+ * // ["/queue/simple/print", "=.proplist=.id,max-limit", "?target=10.0.0.5/32"]
+ */
+export class CommandBuilder {
+  private attributes: string[] = [];
+  private queries: string[] = [];
+
+  constructor(
+    private readonly path: string,
+    private readonly verb: Verb,
+  ) {
+    checkPath(path);
+  }
+
+  /**
+   * Атрибут команды "=name=value"
+   */
+  attr(name: string, value: QueryValue): this {
+    this.attributes.push(`=${checkName(name)}=${checkValue(name, value)}`);
+    return this;
+  }
+
+  /**
+   * Несколько атрибутов; свойства со значением undefined пропускаются
+   */
+  attrs(values: Record<string, QueryValue | undefined>): this {
+    for (const [name, value] of Object.entries(values)) {
+      if (value !== undefined) this.attr(name, value);
+    }
+    return this;
+  }
+
+  /**
+   * Идентификатор записи "=.id=*1A" для set/remove
+   */
+  id(id: string): this {
+    this.attributes.push(`=.id=${checkId(id)}`);
+    return this;
+  }
+
+  /**
+   * Ограничивает набор свойств в ответах "!re"
+   */
+  proplist(...names: string[]): this {
+    this.attributes.push(`=.proplist=${names.map(checkName).join(",")}`);
+    return this;
+  }
+
+  /**
+   * Запрос "?name=value": свойство равно значению
+   */
+  where(name: string, value: QueryValue): this {
+    return this.query(`?${checkName(name)}=${checkValue(name, value)}`);
+  }
+
+  /**
+   * Запрос "?name": свойство присутствует
+   */
+  has(name: string): this {
+    return this.query(`?${checkName(name)}`);
+  }
+
+  /**
+   * Запрос "?-name": свойство отсутствует
+   */
+  missing(name: string): this {
+    return this.query(`?-${checkName(name)}`);
+  }
+
+  /**
+   * Запрос "?<name=value": свойство меньше значения
+   */
+  lessThan(name: string, value: QueryValue): this {
+    return this.query(`?<${checkName(name)}=${checkValue(name, value)}`);
+  }
+
+  /**
+   * Запрос "?>name=value": свойство больше значения
+   */
+  greaterThan(name: string, value: QueryValue): this {
+    return this.query(`?>${checkName(name)}=${checkValue(name, value)}`);
+  }
+
+  /**
+   * Операции над стеком запроса "?#<ops>", например "|" или "!&"
+   */
+  stack(ops: string): this {
+    if (!STACK_OPS_PATTERN.test(ops)) {
+      throw new RequestError(`Invalid query stack operations: ${JSON.stringify(ops)}`);
+    }
+    return this.query(`?#${ops}`);
+  }
+
+  /**
+   * Два верхних условия стека объединяются через ИЛИ ("?#|")
+   */
+  or(): this {
+    return this.stack("|");
+  }
+
+  /**
+   * Два верхних условия стека объединяются через И ("?#&")
+   */
+  and(): this {
+    return this.stack("&");
+  }
+
+  /**
+   * Верхнее условие стека инвертируется ("?#!")
+   */
+  not(): this {
+    return this.stack("!");
+  }
+
+  /**
+   * Возвращает слова команды для RouterOSClient.command()
+   * @throws RequestError если команда над записью без .id или запрос у команды, отличной от print
+   */
+  build(): string[] {
+    if (this.queries.length && this.verb !== "print") {
+      throw new RequestError(`Query words are only allowed in print, not in ${this.verb}`);
+    }
+    const hasId = this.attributes.some((word) => word.startsWith("=.id="));
+    if (this.verb !== "print" && this.verb !== "add" && !hasId) {
+      throw new RequestError(`${this.path}/${this.verb} requires .id`);
+    }
+    return [`${this.path}/${this.verb}`, ...this.attributes, ...this.queries];
+  }
+
+  private query(word: string): this {
+    this.queries.push(word);
+    return this;
+  }
+}
+
+/**
+ * Команда чтения: print("/queue/simple").where("target", "10.0.0.5/32")
+ */
+export function print(path: string): CommandBuilder {
+  return new CommandBuilder(path, "print");
+}
+
+/**
+ * Команда создания записи: add("/queue/simple").attrs({ target, "max-limit": limit })
+ */
+export function add(path: string): CommandBuilder {
+  return new CommandBuilder(path, "add");
+}
+
+/**
+ * Команда изменения записи: set("/queue/simple").id(id).attr("max-limit", limit)
+ */
+export function set(path: string): CommandBuilder {
+  return new CommandBuilder(path, "set");
+}
+
+/**
+ * Команда удаления записи: remove("/queue/simple").id(id)
+ */
+export function remove(path: string): CommandBuilder {
+  return new CommandBuilder(path, "remove");
+}
+
+/**
+ * Включение записи: enable("/ip/dhcp-server/lease").id(id)
+ */
+export function enable(path: string): CommandBuilder {
+  return new CommandBuilder(path, "enable");
+}
+
+/**
+ * Отключение записи: disable("/ip/dhcp-server/lease").id(id)
+ */
+export function disable(path: string): CommandBuilder {
+  return new CommandBuilder(path, "disable");
+}
+
+/**
+ * Перевод динамической записи в статическую: makeStatic("/ip/dhcp-server/lease").id(id)
+ */
+export function makeStatic(path: string): CommandBuilder {
+  return new CommandBuilder(path, "make-static");
+}
@@ -0,0 +1,368 @@
+// radius-coa.ts
+// RADIUS Dynamic Authorization клиент (RFC 5176): CoA-Request и Disconnect-Request.
+//
+// Заменяет вызовы radclient из Untitled-2.sh:
+//   echo "User-name=..., Acct-Session-Id=..., Mikrotik-Rate-Limit=..." | radclient <nas>:3799 coa <secret>
+//
+// Формат пакета RADIUS:
+//   Code (1) | Identifier (1) | Length (2) | Authenticator (16) | Attributes ...
+// Атрибут: Type (1) | Length (1) | Value (Length - 2)
+//
+// Аутентификация запроса (RFC 5176, раздел 2.3 / 3.5):
+//   1) Message-Authenticator = HMAC-MD5(secret, пакет с нулевыми Authenticator и Message-Authenticator)
+//   2) Request Authenticator = MD5(Code + Identifier + Length + 16 нулей + Attributes + secret)
+// Ответ (ACK/NAK) проверяется так же, как Accounting-Response:
+//   Response Authenticator = MD5(Code + Identifier + Length + Request Authenticator + Attributes + secret)
+
+import dgram from "dgram";
+import crypto from "crypto";
+import { getCoAConfig, NasServer } from "./config-preloader";
+
+/**
+ * Коды пакетов RADIUS Dynamic Authorization
+ */
+export const RadiusCode = {
+  DisconnectRequest: 40,
+  DisconnectACK: 41,
+  DisconnectNAK: 42,
+  CoARequest: 43,
+  CoAACK: 44,
+  CoANAK: 45,
+} as const;
+type RequestCode = typeof RadiusCode.DisconnectRequest | typeof RadiusCode.CoARequest;
+
+/**
+ * Используемые типы атрибутов RADIUS
+ */
+const AttributeType = {
+  UserName: 1,
+  FramedIPAddress: 8,
+  VendorSpecific: 26,
+  AcctSessionId: 44,
+  MessageAuthenticator: 80,
+  ErrorCause: 101,
+} as const;
+
+const MIKROTIK_VENDOR_ID = 14988;
+const MIKROTIK_RATE_LIMIT = 8;
+
+const HEADER_LENGTH = 20;
+const DEFAULT_PORT = 3799;
+const DEFAULT_TIMEOUT = 1000;
+const DEFAULT_RETRIES = 1;
+
+/**
+ * Один атрибут пакета: тип и уже закодированное значение
+ */
+type RadiusAttribute = [type: number, value: Buffer];
+
+/**
+ * Разобранный ответ NAS на CoA/Disconnect-Request
+ * code - код ответа (ACK или NAK)
+ * acknowledged - true для CoA-ACK/Disconnect-ACK
+ * errorCause - значение атрибута Error-Cause (RFC 5176, раздел 3.5), если NAS его прислал
+ */
+export interface CoAReply {
+  code: number;
+  acknowledged: boolean;
+  errorCause?: number;
+  attributes: RadiusAttribute[];
+}
+
+/**
+ * Параметры отправки одного запроса
+ */
+export interface CoATarget {
+  host: string;
+  port: number;
+  secret: string;
+  timeout: number;
+  retries: number;
+}
+
+/**
+ * Идентификация сессии абонента в запросе
+ * login - User-Name
+ * session - Acct-Session-Id
+ * ip - Framed-IP-Address (необязателен)
+ */
+export interface CoASession {
+  login: string;
+  session: string;
+  ip?: string;
+}
+
+/**
+ * NAS ответил NAK на CoA/Disconnect-Request
+ */
+export class CoANakError extends Error {
+  constructor(
+    readonly code: number,
+    readonly errorCause?: number,
+  ) {
+    super(`RADIUS NAK (code ${code}${errorCause !== undefined ? `, Error-Cause ${errorCause}` : ""})`);
+    this.name = "CoANakError";
+  }
+}
+
+// ─────────────────────────── Кодирование атрибутов ───────────────────────────
+
+function stringAttribute(type: number, value: string): RadiusAttribute {
+  return [type, Buffer.from(value, "utf8")];
+}
+
+function ipv4Attribute(type: number, address: string): RadiusAttribute {
+  const octets = address.split(".").map(Number);
+  if (octets.length !== 4 || octets.some((o) => !Number.isInteger(o) || o < 0 || o > 255)) {
+    throw new Error(`Invalid IPv4 address: ${address}`);
+  }
+  return [type, Buffer.from(octets)];
+}
+
+/**
+ * Vendor-Specific: Vendor-Id (4) | Vendor-Type (1) | Vendor-Length (1) | Value
+ */
+function vendorAttribute(vendorId: number, vendorType: number, value: Buffer): RadiusAttribute {
+  const data = Buffer.alloc(6 + value.length);
+  data.writeUInt32BE(vendorId, 0);
+  data.writeUInt8(vendorType, 4);
+  data.writeUInt8(value.length + 2, 5);
+  value.copy(data, 6);
+  return [AttributeType.VendorSpecific, data];
+}
+
+function encodeAttributes(attributes: RadiusAttribute[]): Buffer {
+  return Buffer.concat(
+    attributes.map(([type, value]) => {
+      if (value.length > 253) {
+        throw new Error(`RADIUS attribute ${type} is too long`);
+      }
+      return Buffer.concat([Buffer.from([type, value.length + 2]), value]);
+    }),
+  );
+}
+
+function decodeAttributes(data: Buffer): RadiusAttribute[] {
+  const attributes: RadiusAttribute[] = [];
+  let offset = 0;
+  while (offset + 2 <= data.length) {
+    const type = data[offset];
+    const length = data[offset + 1];
+    if (length < 2 || offset + length > data.length) {
+      throw new Error("Malformed RADIUS attribute");
+    }
+    attributes.push([type, data.subarray(offset + 2, offset + length)]);
+    offset += length;
+  }
+  return attributes;
+}
+
+// ─────────────────────────── Сборка и проверка пакетов ───────────────────────────
+
+/**
+ * Собирает подписанный запрос: добавляет Message-Authenticator и вычисляет Request Authenticator
+ */
+function buildRequest(
+  code: RequestCode,
+  identifier: number,
+  attributes: RadiusAttribute[],
+  secret: string,
+): Buffer {
+  const body = encodeAttributes([
+    ...attributes,
+    [AttributeType.MessageAuthenticator, Buffer.alloc(16)],
+  ]);
+  const packet = Buffer.alloc(HEADER_LENGTH + body.length);
+  packet.writeUInt8(code, 0);
+  packet.writeUInt8(identifier, 1);
+  packet.writeUInt16BE(packet.length, 2);
+  body.copy(packet, HEADER_LENGTH);
+
+  // Message-Authenticator — последний атрибут, его значение занимает последние 16 байт
+  const hmac = crypto.createHmac("md5", secret).update(packet).digest();
+  hmac.copy(packet, packet.length - 16);
+
+  const authenticator = crypto
+    .createHash("md5")
+    .update(packet)
+    .update(Buffer.from(secret, "utf8"))
+    .digest();
+  authenticator.copy(packet, 4);
+  return packet;
+}
+
+/**
+ * Проверяет Response Authenticator и, если есть, Message-Authenticator ответа
+ */
+function verifyReply(reply: Buffer, request: Buffer, secret: string): boolean {
+  const requestAuthenticator = request.subarray(4, HEADER_LENGTH);
+  const expected = crypto
+    .createHash("md5")
+    .update(reply.subarray(0, 4))
+    .update(requestAuthenticator)
+    .update(reply.subarray(HEADER_LENGTH))
+    .update(Buffer.from(secret, "utf8"))
+    .digest();
+  if (!crypto.timingSafeEqual(expected, reply.subarray(4, HEADER_LENGTH))) {
+    return false;
+  }
+
+  // Message-Authenticator ответа считается с Request Authenticator в заголовке
+  let offset = HEADER_LENGTH;
+  while (offset + 2 <= reply.length) {
+    const type = reply[offset];
+    const length = reply[offset + 1];
+    if (type === AttributeType.MessageAuthenticator && length === 18) {
+      const copy = Buffer.from(reply);
+      requestAuthenticator.copy(copy, 4);
+      copy.fill(0, offset + 2, offset + 18);
+      const hmac = crypto.createHmac("md5", secret).update(copy).digest();
+      return crypto.timingSafeEqual(hmac, reply.subarray(offset + 2, offset + 18));
+    }
+    if (length < 2) return false;
+    offset += length;
+  }
+  return true;
+}
+
+function parseReply(reply: Buffer): CoAReply {
+  const code = reply[0];
+  const attributes = decodeAttributes(reply.subarray(HEADER_LENGTH, reply.readUInt16BE(2)));
+  const errorCause = attributes.find(([type]) => type === AttributeType.ErrorCause)?.[1];
+  return {
+    code,
+    acknowledged: code === RadiusCode.CoAACK || code === RadiusCode.DisconnectACK,
+    errorCause: errorCause?.length === 4 ? errorCause.readUInt32BE(0) : undefined,
+    attributes,
+  };
+}
+
+/**
+ * RadiusCoAClient — отправка CoA/Disconnect-Request на NAS по UDP
+ * с повторными отправками и проверкой подписи ответа
+ */
+export class RadiusCoAClient {
+  private identifier = crypto.randomInt(256);
+
+  /**
+   * Отправляет запрос и ждёт ответ с тем же Identifier
+   * При отсутствии ответа повторяет отправку того же пакета (retries раз)
+   * @returns Promise с разобранным ответом (ACK или NAK)
+   * @throws Error при таймауте после всех попыток
+   */
+  send(target: CoATarget, code: RequestCode, attributes: RadiusAttribute[]): Promise<CoAReply> {
+    this.identifier = (this.identifier + 1) & 0xff;
+    const identifier = this.identifier;
+    const packet = buildRequest(code, identifier, attributes, target.secret);
+
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket("udp4");
+      let attempt = 0;
+      let timer: NodeJS.Timeout | undefined;
+      let done = false;
+
+      // Ответ, таймаут и ошибка сокета могут прийти одновременно: повторный close() бросает
+      // ERR_SOCKET_DGRAM_NOT_RUNNING, поэтому завершается только первый
+      const finish = (error: Error | null, reply?: CoAReply) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        socket.close();
+        if (error) reject(error);
+        else resolve(reply!);
+      };
+
+      const transmit = () => {
+        if (done) return;
+        attempt++;
+        socket.send(packet, target.port, target.host, (err) => {
+          if (err) finish(err);
+        });
+        timer = setTimeout(() => {
+          if (attempt > target.retries) {
+            finish(new Error(`No CoA reply from ${target.host}:${target.port} after ${attempt} attempts`));
+          } else {
+            transmit();
+          }
+        }, target.timeout);
+      };
+
+      socket.on("message", (message, remote) => {
+        // Чужие и повреждённые пакеты игнорируем, продолжая ждать корректный ответ
+        if (remote.address !== target.host || message.length < HEADER_LENGTH) return;
+        if (message[1] !== identifier || message.readUInt16BE(2) > message.length) return;
+        if (!verifyReply(message, packet, target.secret)) {
+          console.error(`[CoA] Invalid authenticator in reply from ${target.host}`);
+          return;
+        }
+        try {
+          finish(null, parseReply(message));
+        } catch (err) {
+          finish(err as Error);
+        }
+      });
+      socket.on("error", (err) => finish(err));
+
+      transmit();
+    });
+  }
+
+  /**
+   * Меняет скорость активной сессии (аналог `radclient ... coa` с Mikrotik-Rate-Limit)
+   * @param nas - Адрес NAS устройства
+   * @param session - Идентификация сессии абонента
+   * @param rateLimit - Значение Mikrotik-Rate-Limit, например "102400k/102400k"
+   * @throws CoANakError если NAS ответил CoA-NAK
+   */
+  async changeRateLimit(nas: NasServer, session: CoASession, rateLimit: string): Promise<void> {
+    await this.request(nas, RadiusCode.CoARequest, [
+      ...this.sessionAttributes(session),
+      vendorAttribute(MIKROTIK_VENDOR_ID, MIKROTIK_RATE_LIMIT, Buffer.from(rateLimit, "utf8")),
+    ]);
+  }
+
+  /**
+   * Разрывает сессию абонента (аналог `radclient ... disconnect`)
+   * @param nas - Адрес NAS устройства
+   * @param session - Идентификация сессии абонента
+   * @throws CoANakError если NAS ответил Disconnect-NAK
+   */
+  async disconnect(nas: NasServer, session: CoASession): Promise<void> {
+    await this.request(nas, RadiusCode.DisconnectRequest, this.sessionAttributes(session));
+  }
+
+  private async request(
+    nas: NasServer,
+    code: RequestCode,
+    attributes: RadiusAttribute[],
+  ): Promise<void> {
+    const config = getCoAConfig(nas);
+    const reply = await this.send(
+      {
+        host: nas,
+        port: config.port ?? DEFAULT_PORT,
+        secret: config.secret,
+        timeout: config.timeout ?? DEFAULT_TIMEOUT,
+        retries: config.retries ?? DEFAULT_RETRIES,
+      },
+      code,
+      attributes,
+    );
+    if (!reply.acknowledged) {
+      throw new CoANakError(reply.code, reply.errorCause);
+    }
+  }
+
+  private sessionAttributes({ login, session, ip }: CoASession): RadiusAttribute[] {
+    const attributes = [
+      stringAttribute(AttributeType.UserName, login),
+      stringAttribute(AttributeType.AcctSessionId, session),
+    ];
+    if (ip !== undefined) {
+      attributes.push(ipv4Attribute(AttributeType.FramedIPAddress, ip));
+    }
+    return attributes;
+  }
+}
+
+export default new RadiusCoAClient();
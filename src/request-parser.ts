@@ -0,0 +1,285 @@
+// request-parser.ts
+// Разбор строки команды биллинга, которую обработчик LANBilling передаёт в Unix socket.
+//
+// Строка — это параметры обработчика (см. Untitled-2.sh) в виде пар "--key value":
+//   --action start --session 5f3a --login "ivanov a.a." --nas 10.77.0.5 --ip 10.0.0.5
+//
+// - Значения с пробелами берутся в двойные или одинарные кавычки, как в shell;
+//   внутри двойных кавычек и вне кавычек "\" экранирует следующий символ.
+// - Значение может начинаться с "-" ("--login -guest-"): после ключа всегда идёт его значение.
+// - Пустое значение передаётся как "" (биллинг так передаёт незаполненные поля).
+// - Неизвестный ключ пишется в лог и пропускается вместе со значением: биллинг передаёт
+//   параметры, которые демону не нужны, как и старый обработчик.
+// - Повторный ключ, ключ без значения — ошибка RequestError с именем ключа.
+
+import { Cidr, parseCidr, parseIPv4, parseIPv6Cidr, parseMac } from "./address";
+import { RequestError } from "./errors";
+import { parseShape, ShapeProfile } from "./shape";
+
+/**
+ * Действия, которые биллинг передаёт обработчику (см. Untitled-2.sh)
+ */
+export const ACTIONS = [
+  "start",
+  "stop",
+  "edit",
+  "on",
+  "off",
+  "create",
+  "delete",
+  "quota",
+  "isg-stop",
+] as const;
+export type Action = (typeof ACTIONS)[number];
+
+/**
+ * Ключи обработчика LANBilling
+ * "--ip" и "--net" в обработчике взаимозаменяемы, здесь "--net" разбирается как сеть
+ * "--ipv6" и "--ipv6-prefix" передаются для абонентов с dual-stack
+ */
+const KEYS = [
+  "action",
+  "reason",
+  "session",
+  "login",
+  "nas",
+  "ip",
+  "net",
+  "ipv6",
+  "ipv6-prefix",
+  "shape",
+  "oldshape",
+  "opt-bng-name",
+  "mac",
+  "guest",
+  "password",
+  "oldblocked",
+  "blocked",
+  "user-name",
+  "vg-login",
+] as const;
+type Key = (typeof KEYS)[number];
+
+/**
+ * Проверенный запрос биллинга
+ * nas - адрес или алиас NAS из --nas; без него NAS ищется по абоненту (см. nas-locator.ts)
+ * ip - адрес абонента (из --ip, либо адрес сети из --net)
+ * net - сеть абонента из --net
+ * ipv6 - IPv6 адрес (/128) или сеть абонента из --ipv6
+ * ipv6Prefix - делегированный абоненту префикс (DHCPv6-PD, обычно /56 или /64) из --ipv6-prefix
+ * shape, oldshape - скорость: число в kbit или строка Mikrotik-Rate-Limit (см. shape.ts)
+ * blocked, oldblocked - код блокировки LANBilling, 0 — не заблокирован
+ * guest - абонент в гостевом режиме (--guest 1)
+ */
+export type SocketRequest = {
+  action: Action;
+  reason?: string;
+  session?: string;
+  login: string;
+  nas?: string;
+  ip: string;
+  net?: Cidr;
+  ipv6?: Cidr;
+  ipv6Prefix?: Cidr;
+  mac?: string;
+  shape?: ShapeProfile;
+  oldshape?: ShapeProfile;
+  blocked?: number;
+  oldblocked?: number;
+  guest?: boolean;
+  password?: string;
+  userName?: string;
+  vgLogin?: string;
+  bngName?: string;
+};
+
+/**
+ * Разбивает строку на слова по правилам shell: пробелы, кавычки, экранирование "\"
+ * @throws RequestError при незакрытой кавычке или "\" в конце строки
+ */
+export function tokenize(line: string): string[] {
+  const words: string[] = [];
+  let word = "";
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote === "'") {
+      if (char === "'") quote = null;
+      else word += char;
+      continue;
+    }
+    if (char === "\\" && quote === null) {
+      if (i + 1 >= line.length) throw new RequestError("Unterminated escape at end of line");
+      word += line[++i];
+      inWord = true;
+      continue;
+    }
+    if (char === "\\" && quote === '"') {
+      // В двойных кавычках "\" экранирует только кавычку и сам себя
+      const next = line[i + 1];
+      if (next === '"' || next === "\\") {
+        word += next;
+        i++;
+      } else {
+        word += char;
+      }
+      continue;
+    }
+    if (quote === '"') {
+      if (char === '"') quote = null;
+      else word += char;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      if (inWord) words.push(word);
+      word = "";
+      inWord = false;
+      continue;
+    }
+    word += char;
+    inWord = true;
+  }
+
+  if (quote !== null) {
+    throw new RequestError(`Unterminated ${quote} quote`);
+  }
+  if (inWord) words.push(word);
+  return words;
+}
+
+/**
+ * Записывает слово так, чтобы tokenize вернул его без изменений
+ */
+function quoteWord(word: string): string {
+  if (word !== "" && !/[\s'"\\]/.test(word)) return word;
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Убирает --password из строки команды: обработчикам пароль абонента не нужен,
+ * и в очереди задач на диске его быть не должно
+ * @throws RequestError при незакрытой кавычке
+ */
+export function withoutPassword(line: string): string {
+  const words = tokenize(line);
+  // Ключи стоят на чётных позициях, значения — на нечётных
+  const index = words.findIndex((word, i) => i % 2 === 0 && word === "--password");
+  if (index === -1) return line;
+  words.splice(index, 2);
+  return words.map(quoteWord).join(" ");
+}
+
+function isKey(key: string): key is Key {
+  return KEYS.includes(key as Key);
+}
+
+/**
+ * Собирает пары "--key value" в словарь; неизвестные ключи пропускаются
+ * @throws RequestError при повторном ключе или ключе без значения
+ */
+function collectPairs(words: string[]): Partial<Record<Key, string>> {
+  const pairs: Partial<Record<Key, string>> = {};
+  for (let i = 0; i < words.length; i += 2) {
+    const word = words[i];
+    if (!word.startsWith("--")) {
+      throw new RequestError(`Expected a --key, got ${JSON.stringify(word)}`);
+    }
+    const key = word.slice(2);
+    if (!isKey(key)) {
+      console.warn(`[Parser] Ignoring unknown parameter ${word}`);
+      continue;
+    }
+    if (pairs[key] !== undefined) {
+      throw new RequestError(`Duplicate parameter ${word}`);
+    }
+    if (i + 1 >= words.length) {
+      throw new RequestError(`Missing value for ${word}`);
+    }
+    pairs[key] = words[i + 1];
+  }
+  return pairs;
+}
+
+function required(pairs: Partial<Record<Key, string>>, key: Key): string {
+  const value = pairs[key];
+  if (value === undefined || value === "") {
+    throw new RequestError(`Missing required parameter --${key}`);
+  }
+  return value;
+}
+
+/**
+ * Разбирает целое неотрицательное число (код блокировки)
+ */
+function parseCount(value: string, field: string): number {
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new RequestError(
+      `Invalid ${field}: ${JSON.stringify(value)} is not a non-negative integer`,
+    );
+  }
+  return Number(value);
+}
+
+function parseFlag(value: string, field: string): boolean {
+  if (value !== "0" && value !== "1") {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)}, expected 0 or 1`);
+  }
+  return value === "1";
+}
+
+/**
+ * Приводит значение к нужному типу; пустые значения считаются непереданными
+ */
+function optional<T>(value: string | undefined, parse: (value: string) => T): T | undefined {
+  return value === undefined || value === "" ? undefined : parse(value);
+}
+
+/**
+ * Разбирает строку команды биллинга в типизированный запрос
+ * @param line - Строка параметров вида "--action start --nas ... --ip ..."
+ * @returns Запрос; nas ещё не сопоставлен с конфигом (может быть алиасом)
+ * @throws RequestError с указанием параметра, если строка или значение некорректны
+ */
+export function parseSocketRequest(line: string): SocketRequest {
+  const pairs = collectPairs(tokenize(line));
+
+  const action = required(pairs, "action");
+  if (!ACTIONS.includes(action as Action)) {
+    throw new RequestError(`Unknown action ${JSON.stringify(action)}`);
+  }
+
+  const net = optional(pairs.net, (value) => parseCidr(value, "--net"));
+  const ip = optional(pairs.ip, (value) => parseIPv4(value, "--ip")) ?? net?.address;
+  if (ip === undefined) {
+    throw new RequestError("Missing required parameter --ip or --net");
+  }
+
+  return {
+    action: action as Action,
+    reason: optional(pairs.reason, String),
+    session: optional(pairs.session, String),
+    login: required(pairs, "login"),
+    nas: optional(pairs.nas, String),
+    ip,
+    net,
+    ipv6: optional(pairs.ipv6, (value) => parseIPv6Cidr(value, "--ipv6")),
+    ipv6Prefix: optional(pairs["ipv6-prefix"], (value) => parseIPv6Cidr(value, "--ipv6-prefix")),
+    mac: optional(pairs.mac, (value) => parseMac(value, "--mac")),
+    shape: optional(pairs.shape, (value) => parseShape(value, "--shape")),
+    oldshape: optional(pairs.oldshape, (value) => parseShape(value, "--oldshape")),
+    blocked: optional(pairs.blocked, (value) => parseCount(value, "--blocked")),
+    oldblocked: optional(pairs.oldblocked, (value) => parseCount(value, "--oldblocked")),
+    guest: optional(pairs.guest, (value) => parseFlag(value, "--guest")),
+    password: optional(pairs.password, String),
+    userName: optional(pairs["user-name"], String),
+    vgLogin: optional(pairs["vg-login"], String),
+    bngName: optional(pairs["opt-bng-name"], String),
+  };
+}
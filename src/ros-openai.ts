@@ -1,11 +1,7 @@
 // routeros.ts
 // Полноценный RouterOS API клиент на TypeScript (Node.js) с детальными комментариями.
 //
-// Быстрый старт:
-//   ts-node routeros.ts <host> [user=admin] [password=""] [secure=false] [port]
-// Примеры:
-//   ts-node routeros.ts 192.0.2.1 admin mypass
-//   ts-node routeros.ts router.local admin "" true 8729
+// Командная строка для оператора — rosctl.ts (берёт адреса и пароли NAS из nas-config.json).
 //
 // Основные концепции RouterOS API:
 // - Сообщения состоят из "слов" (word). Слово = префикс длины (1..5 байт, varint по правилу RouterOS) + данные UTF-8.
@@ -15,14 +11,21 @@
 //   1) отправка /login с name+password; если сервер вернул '=ret', то нужен challenge-response
 //   2) MD5(0x00 || password || challenge) и отправка /login с name + response=00<md5hex>
 //
-// Безопасность TLS:
-// - RouterOS часто использует самоподписанные сертификаты, поэтому в примере rejectUnauthorized=false,
-//   но в проде лучше включить валидацию и настроить доверенные CA.
+// Безопасность TLS (api-ssl, порт 8729):
+// - сертификат роутера проверяется по системным CA или по собственному CA-бандлу (TlsOptions.ca);
+// - самоподписанный сертификат RouterOS можно закрепить по SHA-256 отпечатку (TlsOptions.fingerprint);
+// - отключить проверку можно только явно (TlsOptions.insecure) — пароль при этом может быть перехвачен MITM.
 
 import net from "net";
 import tls from "tls";
 import crypto from "crypto";
-import * as readline from "readline";
+import {
+  ConnectionError,
+  LoginError,
+  TlsVerificationError,
+  RouterOSError,
+  RouterOSFatalError,
+} from "./errors";
 
 /**
  * Кортеж одного предложения ответа API:
@@ -139,25 +142,84 @@ class SocketBuffer {
   }
 }
 
+/**
+ * ReplyChannel — очередь предложений-ответов одной тегированной команды.
+ *
+ * ЗАДАЧА:
+ *  - принимать ответы, которые фоновый читатель сокета направил по тегу
+ *  - отдавать их потребителю по одному через next()
+ *  - передать ошибку соединения всем ожидающим
+ */
+class ReplyChannel {
+  private items: ApiReply[] = [];
+  private waiters: Array<{ resolve: (r: ApiReply) => void; reject: (e: any) => void }> = [];
+  private error: any = null;
+
+  /**
+   * @param command - слова команды, для контекста в ошибках
+   */
+  constructor(readonly command: string[]) {}
+
+  push(reply: ApiReply) {
+    const waiter = this.waiters.shift();
+    if (waiter) waiter.resolve(reply);
+    else this.items.push(reply);
+  }
+
+  fail(err: any) {
+    this.error = err;
+    while (this.waiters.length) {
+      this.waiters.shift()!.reject(err);
+    }
+  }
+
+  next(): Promise<ApiReply> {
+    if (this.items.length) return Promise.resolve(this.items.shift()!);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+}
+
+/**
+ * Тегированная команда, выполняющаяся на соединении параллельно с другими.
+ * tag — значение .tag, которым RouterOS помечает все ответы этой команды,
+ * replies — асинхронный итератор по ответам до '!done',
+ * cancel — прерывает команду на роутере через /cancel.
+ */
+export interface TaggedCommand {
+  tag: string;
+  replies: AsyncGenerator<ApiReply, void, unknown>;
+  cancel(): Promise<void>;
+}
+
 /**
  * RouterOSClient — высокоуровневый клиент для общения с RouterOS API.
  * Содержит:
  *  - авторизацию (включая challenge-response)
  *  - генератор sendCommand для отправки команд и чтения ответов
+ *  - мультиплексирование: каждая команда получает свой .tag, фоновый читатель
+ *    раскладывает ответы по тегам, поэтому на одном соединении можно выполнять много команд сразу
  *  - низкоуровневые помощники: предложение/слово, кодирование/декодирование длины
  */
 export class RouterOSClient {
   private socket: net.Socket | tls.TLSSocket;
   private buffer = new SocketBuffer();
   private verbose: boolean;
+  private lastTag = 0;
+  private channels = new Map<string, ReplyChannel>();
+  private reading = false;
+  private closedError: Error | null = null;
+  readonly host: string;
 
   /**
    * @param socket - уже установленное TCP/TLS соединение
    * @param verbose - если true, логирует отправляемые/получаемые слова вида "<<<" / ">>>"
+   * @param host - адрес устройства для сообщений об ошибках (по умолчанию адрес сокета)
    */
-  constructor(socket: net.Socket | tls.TLSSocket, verbose = false) {
+  constructor(socket: net.Socket | tls.TLSSocket, verbose = false, host?: string) {
     this.socket = socket;
     this.verbose = verbose;
+    this.host = host ?? socket.remoteAddress ?? "unknown";
 
     // Привязываем обработчики сокета к буферизатору:
     socket.on("data", (chunk) => this.buffer.feed(chunk));
@@ -166,6 +228,29 @@ export class RouterOSClient {
     socket.on("error", (err) => this.buffer.fail(err));
   }
 
+  /**
+   * true, если соединение закрыто или получило ошибку и больше не принимает команды
+   */
+  get closed(): boolean {
+    return this.closedError !== null || this.socket.destroyed;
+  }
+
+  /**
+   * Включает TCP keepalive: соединение, на котором команда молчит часами (/listen),
+   * иначе не заметит, что роутер пропал
+   * @param initialDelay - мс простоя до первой проверки
+   */
+  keepAlive(initialDelay: number): void {
+    this.socket.setKeepAlive(true, initialDelay);
+  }
+
+  /**
+   * Количество команд, ожидающих ответа на этом соединении
+   */
+  get pendingCommands(): number {
+    return this.channels.size;
+  }
+
   // ─────────────────────────── Высокоуровневое API ───────────────────────────
 
   /**
@@ -178,16 +263,15 @@ export class RouterOSClient {
    *     - отправляем /login c name и response=00<md5hex>
    *  3) Если где-то приходит '!trap' — логин провален.
    *
-   * Возвращает true при успехе, false при ошибке.
+   * @throws LoginError если роутер отклонил логин
    */
-  async login(username: string, password: string): Promise<boolean> {
+  async login(username: string, password: string): Promise<void> {
     // Первичная попытка логина: либо сразу успех, либо сервер вернёт '=ret' для challenge.
-    for await (const [reply, attributes] of this.sendCommand([
-      "/login",
-      `=name=${username}`,
-      `=password=${password}`,
-    ])) {
-      if (reply === "!trap") return false;
+    const command = ["/login", `=name=${username}`, `=password=${password}`];
+    for await (const [reply, attributes] of this.sendCommand(command)) {
+      if (reply === "!trap") {
+        throw new LoginError(attributes["=message"] ?? "login failed", this.host, command);
+      }
 
       // Сервер запросил challenge-response:
       if ("=ret" in attributes) {
@@ -202,16 +286,14 @@ export class RouterOSClient {
         const md5Digest = md5.digest("hex");
 
         // отправка ответа с префиксом '00'
-        for await (const [reply2] of this.sendCommand([
-          "/login",
-          `=name=${username}`,
-          `=response=00${md5Digest}`,
-        ])) {
-          if (reply2 === "!trap") return false;
+        const response = ["/login", `=name=${username}`, `=response=00${md5Digest}`];
+        for await (const [reply2, attributes2] of this.sendCommand(response)) {
+          if (reply2 === "!trap") {
+            throw new LoginError(attributes2["=message"] ?? "login failed", this.host, response);
+          }
         }
       }
     }
-    return true;
   }
 
   /**
@@ -224,40 +306,166 @@ export class RouterOSClient {
    * КАК ПАРСИМ:
    *  - Первое слово предложения — тип ('!re', '!trap', '!done').
    *  - Остальные слова вида '=key=value' раскладываем в attributes.
+   *  - Служебное слово '.tag=N' в attributes не попадает.
+   *
+   * Можно вызывать параллельно: ответы разных команд не перемешиваются.
    */
-  async *sendCommand(words: string[]): AsyncGenerator<ApiReply, void, unknown> {
-    const sentCount = await this.sendSentence(words);
-    if (sentCount === 0) return; // ничего не отправили — нет и ответов
+  sendCommand(words: string[]): AsyncGenerator<ApiReply, void, unknown> {
+    return this.command(words).replies;
+  }
 
-    while (true) {
-      const sentence = await this.receiveSentence();
-      if (sentence.length === 0) continue; // пустые предложения игнорим (на практике не должно быть)
+  /**
+   * Отправляет команду с уникальным тегом и возвращает её описание (см. TaggedCommand).
+   * Канал ответов живёт от отправки до '!done' или ошибки, даже если ответы никто не читает.
+   * Если потребитель прекращает итерацию до '!done', команда отменяется через /cancel.
+   * @throws RouterOSError если команда пустая (роутер получил бы предложение из одного .tag)
+   */
+  command(words: string[]): TaggedCommand {
+    if (words.length === 0 || words[0] === "") {
+      throw new RouterOSError("empty command", this.host, words);
+    }
+    const tag = String(++this.lastTag);
+    const channel = new ReplyChannel(words);
 
-      const replyType = sentence[0];
-      const attributes: Record<string, string> = {};
+    if (this.closedError) {
+      channel.fail(this.toCommandError(this.closedError, words));
+    } else {
+      this.channels.set(tag, channel);
+      this.startReader();
+      this.sendSentence([...words, `.tag=${tag}`]).catch((err) => {
+        this.channels.delete(tag);
+        channel.fail(this.toCommandError(err, words));
+      });
+    }
 
-      // Слова вида '=key=value' превращаем в { '=key': 'value' } (как в Python-оригинале).
-      for (const word of sentence.slice(1)) {
-        const splitIndex = word.indexOf("=", 1); // ищем '=' начиная со второй позиции
-        if (splitIndex === -1) {
-          attributes[word] = "";
-        } else {
-          attributes[word.substring(0, splitIndex)] = word.substring(splitIndex + 1);
+    return {
+      tag,
+      replies: this.readReplies(tag, channel),
+      cancel: () => this.cancel(tag),
+    };
+  }
+
+  /**
+   * Прерывает выполняющуюся команду по её тегу.
+   * RouterOS ответит прерванной команде '!trap' (category=2) и '!done'.
+   */
+  async cancel(tag: string): Promise<void> {
+    for await (const _ of this.sendCommand(["/cancel", `=tag=${tag}`])) {
+      // ответ /cancel не содержит полезных данных
+    }
+  }
+
+  /**
+   * Итерирует по ответам одной команды до '!done'/'!empty'.
+   * При досрочном выходе потребителя отменяет команду; её оставшиеся ответы будут отброшены.
+   */
+  private async *readReplies(
+    tag: string,
+    channel: ReplyChannel,
+  ): AsyncGenerator<ApiReply, void, unknown> {
+    let finished = false;
+    try {
+      while (true) {
+        const reply = await channel.next();
+        if (reply[0] === "!done" || reply[0] === "!empty") finished = true;
+        yield reply;
+        if (finished) return;
+      }
+    } finally {
+      // Канал ещё зарегистрирован — команда выполняется на роутере, её нужно прервать
+      const running = this.channels.get(tag) === channel;
+      this.channels.delete(tag);
+      if (!finished && running && !this.closedError) {
+        this.cancel(tag).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Запускает фоновый цикл чтения предложений (один на соединение).
+   * Цикл завершается при закрытии сокета — тогда все ожидающие команды получают ошибку.
+   */
+  private startReader() {
+    if (this.reading) return;
+    this.reading = true;
+    (async () => {
+      try {
+        while (true) {
+          const sentence = await this.receiveSentence();
+          if (sentence.length === 0) continue; // пустые предложения игнорим (на практике не должно быть)
+          this.dispatch(sentence);
         }
+      } catch (err) {
+        this.failAll(err);
       }
+    })();
+  }
 
-      yield [replyType, attributes];
+  /**
+   * Разбирает предложение и передаёт его в канал команды с соответствующим .tag.
+   * Ответы без тега или для уже завершённых команд отбрасываются.
+   */
+  private dispatch(sentence: string[]) {
+    const replyType = sentence[0];
+
+    // '!fatal' приходит без тега перед закрытием соединения роутером
+    if (replyType === "!fatal") {
+      this.failAll(new RouterOSFatalError(sentence.slice(1).join(" "), this.host));
+      this.socket.end();
+      return;
+    }
+
+    const attributes: Record<string, string> = {};
 
-      // Конец ответа на запрос — '!done'.
-      if (replyType === "!done" || replyType === "!empty") return;
+    // Слова вида '=key=value' превращаем в { '=key': 'value' } (как в Python-оригинале).
+    for (const word of sentence.slice(1)) {
+      const splitIndex = word.indexOf("=", 1); // ищем '=' начиная со второй позиции
+      if (splitIndex === -1) {
+        attributes[word] = "";
+      } else {
+        attributes[word.substring(0, splitIndex)] = word.substring(splitIndex + 1);
+      }
+    }
+
+    const tag = attributes[".tag"];
+    delete attributes[".tag"];
+    this.channels.get(tag)?.push([replyType, attributes]);
+    // Последний ответ команды: дальше канал нужен только тому, кто дочитывает ответы
+    if (replyType === "!done" || replyType === "!empty") {
+      this.channels.delete(tag);
     }
   }
 
+  /**
+   * Помечает соединение как непригодное и передаёт ошибку всем выполняющимся командам.
+   */
+  private failAll(err: any) {
+    this.closedError ??= err instanceof Error ? err : new Error(String(err));
+    for (const channel of this.channels.values()) {
+      channel.fail(this.toCommandError(err, channel.command));
+    }
+    this.channels.clear();
+  }
+
+  /**
+   * Превращает ошибку соединения в типизированную ошибку конкретной команды.
+   * '!fatal' остаётся RouterOSFatalError, всё остальное — ConnectionError.
+   */
+  private toCommandError(err: any, command: string[]): RouterOSError {
+    if (err instanceof RouterOSFatalError) {
+      return new RouterOSFatalError(err.message, this.host, command);
+    }
+    if (err instanceof RouterOSError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    return new ConnectionError(`connection lost: ${message}`, this.host, command, { cause: err });
+  }
+
   /**
    * Закрывает соединение с RouterOS устройством
    * Отправляет FIN пакет и корректно завершает TCP/TLS соединение
    */
   async close() {
+    this.closedError ??= new Error("connection closed");
     this.socket.end();
   }
 
@@ -265,16 +473,14 @@ export class RouterOSClient {
 
   /**
    * Отправляет "предложение": все слова по очереди, затем пустое слово-терминатор.
+   * Предложение пишется в сокет одним буфером, чтобы параллельные команды не перемешали слова.
    * Возвращает число отправленных непустых слов (для информации).
    */
   private async sendSentence(words: string[]): Promise<number> {
-    let count = 0;
-    for (const word of words) {
-      await this.sendWord(word);
-      count++;
-    }
-    await this.sendWord(""); // пустое слово завершает предложение
-    return count;
+    const buffers = words.map((word) => this.encodeWord(word));
+    buffers.push(this.encodeWord("")); // пустое слово завершает предложение
+    await this.write(Buffer.concat(buffers));
+    return words.length;
   }
 
   /**
@@ -291,17 +497,15 @@ export class RouterOSClient {
   }
 
   /**
-   * Отправляет одно "слово":
-   *  1) кодирует его длину в формате RouterOS (1..5 байт)
-   *  2) пишет байты строки UTF-8
+   * Кодирует одно "слово":
+   *  1) префикс длины в формате RouterOS (1..5 байт)
+   *  2) байты строки UTF-8
    * При включённом verbose логирует "<<< слово".
    */
-  private async sendWord(word: string): Promise<void> {
+  private encodeWord(word: string): Buffer {
     if (this.verbose) console.log("<<< " + word);
     const data = Buffer.from(word, "utf8");
-    const lengthBuffer = this.encodeLength(data.length);
-    await this.write(lengthBuffer);
-    await this.write(data);
+    return Buffer.concat([encodeLength(data.length), data]);
   }
 
   /**
@@ -335,43 +539,7 @@ export class RouterOSClient {
   //  - 1110xxxx xxxxxxxx xxxxxxxx xxxxxxxx: четыре байты, +0xE0000000
   //  - 11110xxx xxxxxxxx xxxxxxxx xxxxxxxx xxxxxxxx: пять байт, первый 0xF0, затем 4 байта длины
   //
-  // Ниже — точные реализации инкапсуляции/деинкапсуляции.
-
-  /**
-   * Кодирует целое length в префикс длины RouterOS (1..5 байт).
-   */
-  private encodeLength(length: number): Buffer {
-    if (length < 0x80) {
-      // 0xxxxxxx
-      return Buffer.from([length]);
-    } else if (length < 0x4000) {
-      // 10xxxxxx xxxxxxxx
-      length |= 0x8000;
-      return Buffer.from([(length >> 8) & 0xff, length & 0xff]);
-    } else if (length < 0x200000) {
-      // 110xxxxx xxxxxxxx xxxxxxxx
-      length |= 0xc00000;
-      return Buffer.from([(length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
-    } else if (length < 0x10000000) {
-      // 1110xxxx xxxxxxxx xxxxxxxx xxxxxxxx
-      length |= 0xe0000000;
-      return Buffer.from([
-        (length >> 24) & 0xff,
-        (length >> 16) & 0xff,
-        (length >> 8) & 0xff,
-        length & 0xff,
-      ]);
-    } else {
-      // 11110xxx + 4 байта значения
-      return Buffer.from([
-        0xf0,
-        (length >> 24) & 0xff,
-        (length >> 16) & 0xff,
-        (length >> 8) & 0xff,
-        length & 0xff,
-      ]);
-    }
-  }
+  // Ниже — декодирование; кодирование вынесено в функцию encodeLength после класса.
 
   /**
    * Декодирует префикс длины (1..5 байт) в целое число байт, требуемых для чтения слова.
@@ -415,38 +583,150 @@ export class RouterOSClient {
   }
 }
 
+/**
+ * Кодирует целое length в префикс длины RouterOS (1..5 байт).
+ * Формат — см. раздел "Кодирование/декодирование длины" в RouterOSClient;
+ * вынесена из класса, чтобы тем же кодированием пользовался эмулятор RouterOS.
+ */
+export function encodeLength(length: number): Buffer {
+  if (length < 0x80) {
+    // 0xxxxxxx
+    return Buffer.from([length]);
+  } else if (length < 0x4000) {
+    // 10xxxxxx xxxxxxxx
+    length |= 0x8000;
+    return Buffer.from([(length >> 8) & 0xff, length & 0xff]);
+  } else if (length < 0x200000) {
+    // 110xxxxx xxxxxxxx xxxxxxxx
+    length |= 0xc00000;
+    return Buffer.from([(length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+  } else if (length < 0x10000000) {
+    // 1110xxxx xxxxxxxx xxxxxxxx xxxxxxxx
+    length |= 0xe0000000;
+    return Buffer.from([
+      (length >> 24) & 0xff,
+      (length >> 16) & 0xff,
+      (length >> 8) & 0xff,
+      length & 0xff,
+    ]);
+  } else {
+    // 11110xxx + 4 байта значения
+    return Buffer.from([
+      0xf0,
+      (length >> 24) & 0xff,
+      (length >> 16) & 0xff,
+      (length >> 8) & 0xff,
+      length & 0xff,
+    ]);
+  }
+}
+
 function getCredentials(nas: string) {}
 
+/**
+ * Параметры TLS соединения (api-ssl)
+ * ca - PEM-бандл доверенных CA вместо системного
+ * fingerprint - SHA-256 отпечаток сертификата роутера (hex, двоеточия допускаются);
+ *               если задан без ca, цепочка не проверяется, сертификат сверяется только с отпечатком
+ * servername - имя для SNI и проверки сертификата, если подключаемся по IP
+ * cert/key - клиентский сертификат и ключ в PEM
+ * insecure - не проверять сертификат вовсе (только для отладки)
+ */
+export interface TlsOptions {
+  ca?: string;
+  fingerprint?: string;
+  servername?: string;
+  cert?: string;
+  key?: string;
+  insecure?: boolean;
+}
+
+/**
+ * Приводит отпечаток к виду Node.js (fingerprint256): "AB:CD:..."
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+  const hex = fingerprint.replace(/[:\s]/g, "").toUpperCase();
+  return hex.match(/.{2}/g)?.join(":") ?? "";
+}
+
+/**
+ * Коды ошибок OpenSSL/Node.js, означающие, что сертификат не прошёл проверку
+ */
+const TLS_VERIFY_ERROR = /CERT|SELF_SIGNED|UNABLE_TO_(GET|VERIFY)|ERR_TLS_/;
+
 /**
  * Устанавливает TCP или TLS соединение с RouterOS.
  *
  * @param host   адрес устройства RouterOS
  * @param port   порт (8728 для TCP, 8729 для TLS по умолчанию)
- * @param useTLS true — TLS, false — обычный TCP
+ * @param useTLS false — обычный TCP, true или TlsOptions — TLS
+ * @param timeout сколько мс ждать установки соединения (0 — без ограничения)
  *
- * Замечания по безопасности:
- *  - В примере rejectUnauthorized=false, чтобы упростить подключение к устройствам с самоподписанными сертификатами.
- *    Для продакшена стоит настроить собственный CA и включить строгую проверку.
+ * Проверка сертификата:
+ *  - по умолчанию строгая (системные CA, имя хоста или servername);
+ *  - с fingerprint без ca — сверка отпечатка вместо проверки цепочки (самоподписанный сертификат RouterOS);
+ *  - при ошибке проверки бросается TlsVerificationError с причиной.
  */
 function openSocket(
   host: string,
   port: number,
-  useTLS: boolean,
+  useTLS: boolean | TlsOptions,
+  timeout = 0,
 ): Promise<net.Socket | tls.TLSSocket> {
   return new Promise((resolve, reject) => {
+    const onError = (err: Error & { code?: string }) => {
+      if (err instanceof TlsVerificationError) return reject(err);
+      if (err.code && TLS_VERIFY_ERROR.test(err.code)) {
+        return reject(
+          new TlsVerificationError(`certificate of ${host}:${port} rejected: ${err.message}`, host),
+        );
+      }
+      reject(
+        new ConnectionError(`cannot connect to ${host}:${port}: ${err.message}`, host, undefined, {
+          cause: err,
+        }),
+      );
+    };
+    const onConnect = (socket: net.Socket | tls.TLSSocket) => {
+      socket.setTimeout(0);
+      resolve(socket);
+    };
+    let socket: net.Socket | tls.TLSSocket;
     if (useTLS) {
-      const socket = tls.connect(
+      const options: TlsOptions = useTLS === true ? {} : useTLS;
+      const pinned = options.fingerprint ? normalizeFingerprint(options.fingerprint) : null;
+      const tlsSocket = tls.connect(
         {
           host,
           port,
-          rejectUnauthorized: false, // принять самоподписанный сертификат RouterOS
+          ca: options.ca,
+          cert: options.cert,
+          key: options.key,
+          servername: options.servername,
+          // Закреплённый отпечаток без CA заменяет проверку цепочки (проверяется ниже)
+          rejectUnauthorized: !options.insecure && !(pinned && !options.ca),
+        },
+        () => {
+          const actual = tlsSocket.getPeerCertificate().fingerprint256;
+          if (pinned && actual !== pinned) {
+            tlsSocket.destroy(
+              new TlsVerificationError(
+                `certificate fingerprint of ${host}:${port} is ${actual}, expected ${pinned}`,
+                host,
+              ),
+            );
+            return;
+          }
+          onConnect(tlsSocket);
         },
-        () => resolve(socket),
       );
-      socket.on("error", reject);
+      socket = tlsSocket;
     } else {
-      const socket = net.createConnection({ host, port }, () => resolve(socket));
-      socket.on("error", reject);
+      socket = net.createConnection({ host, port }, () => onConnect(socket));
+    }
+    socket.on("error", onError);
+    if (timeout > 0) {
+      socket.setTimeout(timeout, () => socket.destroy(new Error(`timed out after ${timeout} ms`)));
     }
   });
 }
@@ -455,122 +735,22 @@ export async function getConnection(
   host: string,
   username: string,
   password: string,
-  useTLS: boolean = false,
+  useTLS: boolean | TlsOptions = false,
   port: number = useTLS ? 8729 : 8728,
+  connectTimeout = 0,
 ): Promise<RouterOSClient> {
   // 1) Соединяемся
-  const socket = await openSocket(host, port, useTLS);
+  const socket = await openSocket(host, port, useTLS, connectTimeout);
 
   // 2) Создаём клиента с verbose-логированием слов (как в Python печатали "<<<"/">>>")
-  const client = new RouterOSClient(socket, false);
+  const client = new RouterOSClient(socket, false, host);
 
-  // 3) Логинимся
-  const loginSuccess = await client.login(username, password);
-  if (!loginSuccess) {
+  // 3) Логинимся; при отказе (LoginError) закрываем сокет
+  try {
+    await client.login(username, password);
+  } catch (err) {
     socket.end();
-    throw new Error("Failed to login");
+    throw err;
   }
   return client;
 }
-
-/**
- * CLI-входная точка.
- *
- * Функции:
- *  - парсит аргументы командной строки: host, user, pass, secure, port
- *  - открывает соединение (TCP/TLS) и логинится
- *  - запускает 2 параллельных потока:
- *      1) приём предложений от RouterOS (и логирование)
- *      2) чтение строк из stdin: непустые строки добавляются к текущему предложению, пустая — отправка
- *
- * Схема ввода пользователя полностью повторяет поведение оригинального Python-скрипта.
- */
-async function main() {
-  const args = process.argv.slice(2);
-
-  // Валидация: нужен хотя бы хост.
-  if (args.length < 1) {
-    console.error(
-      'Usage: ts-node routeros.ts <host> [user=admin] [password=""] [secure=false] [port]',
-    );
-    process.exit(1);
-  }
-
-  const host = args[0];
-  const username = args[1] ?? "admin";
-  const password = args[2] ?? "";
-  const useTLS = (args[3] ?? "false").toLowerCase() === "true";
-  const port = args[4] ? parseInt(args[4], 10) : useTLS ? 8729 : 8728;
-
-  // 1) Соединяемся
-  const socket = await openSocket(host, port, useTLS);
-
-  // 2) Создаём клиента с verbose-логированием слов (как в Python печатали "<<<"/">>>")
-  const client = new RouterOSClient(socket, true);
-
-  // 3) Логинимся
-  const loginSuccess = await client.login(username, password);
-  if (!loginSuccess) {
-    console.error("Login failed");
-    socket.end();
-    process.exit(1);
-  }
-
-  // 4) Интерактивные циклы
-
-  // Настраиваем readline: пустая строка = "отправить накопленное предложение".
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-    terminal: true,
-  });
-  let pendingCommand: string[] = [];
-
-  // Фоновый приём предложений от RouterOS:
-  // Получаем предложение целиком (receiveSentence), но подробный лог уже есть на уровне слов (verbose).
-  (async () => {
-    try {
-      while (true) {
-        const sentence = await (client as any).receiveSentence(); // намеренно используем внутренний метод ради компактности
-        if (sentence.length) {
-          // Дополнительная "сводка" по предложению:
-          console.log("[sentence]", JSON.stringify(sentence));
-        }
-      }
-    } catch {
-      // Закрытие сокета или ошибка чтения — закрываем CLI
-      rl.close();
-    }
-  })();
-
-  // Обработка ввода пользователя:
-  // Любая непустая строка добавляется как слово. Пустая строка — отправляем "предложение".
-  rl.on("line", async (line) => {
-    const trimmed = line.replace(/\r?\n$/, "");
-    if (trimmed === "") {
-      try {
-        await (client as any).sendSentence(pendingCommand);
-      } catch (e) {
-        console.error("send failed:", e);
-        rl.close();
-      }
-      pendingCommand = [];
-    } else {
-      pendingCommand.push(trimmed);
-    }
-  });
-
-  // Корректное завершение: закрыть сокет.
-  rl.on("close", () => {
-    socket.end();
-    process.exit(0);
-  });
-}
-
-// Запуск main() при старте файла как скрипта.
-if (require.main === module) {
-  main().catch((err) => {
-    console.error(err);
-    process.exit(1);
-  });
-}
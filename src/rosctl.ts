@@ -0,0 +1,548 @@
+#!/usr/bin/env node
+// rosctl.ts
+// Командная строка оператора поверх RouterAPI и nas-config.json.
+//
+//   rosctl [--nas <адрес|алиас>] [--json] [--columns a,b] <команда> [аргументы]
+//
+//   queue get <ip>              очереди абонента: очередь "sub-<логин>", в которую входит адрес,
+//                               без неё — очереди с target адреса
+//   queue login <логин>         очередь абонента по логину (имя "sub-<логин>")
+//   queue set <ip> <скорость>   выставить скорость в формате --shape: "512k/2M", "10M",
+//                               "10M/20M 15M/30M 8M/16M 8/8"; число — kbit. Меняется очередь
+//                               абонента (setSubscriberQueue), без неё — очередь по адресу
+//   queue remove <ip>           удалить очередь абонента целиком или очереди по адресу
+//   lease show <ip>             DHCP lease абонента; для IPv6 адреса или префикса
+//                               ("2001:db8:100::/56") — записи /ipv6/dhcp-server/binding
+//   lease remove <ip>           удалить DHCP lease (DHCPv6 binding)
+//   lease make-static <ip>      сделать динамический lease статическим
+//   lease enable|disable <ip>   включить или отключить lease
+//   session show <ip|логин>     активные сессии /ppp/active и /ip/hotspot/active
+//   session find <id>           сессия по идентификатору из биллинга (--session)
+//   session remove <ip|логин>   разорвать сессии абонента
+//   nas list                    NAS из конфига
+//   nas ping                    подключиться и выполнить /system/identity/print
+//   nas locate <логин> <ip>     на каких NAS есть сессии, очереди и lease абонента
+//   audit ip <ip> [N]           последние N записей журнала аудита по IP (по умолчанию 20)
+//   audit login <логин> [N]     то же по логину абонента
+//   raw <слово> [слово ...]     произвольная команда API: raw /ip/address/print ?interface=ether1
+//   shell                       интерактивный режим с историей
+//
+// <ip> — IPv4 или IPv6 адрес абонента.
+// --nas можно не указывать, если в конфиге один включённый NAS.
+// Логин и пароль берутся из конфига, в командной строке их нет.
+// Изменения на NAS пишутся в журнал аудита с источником "rosctl" и пользователем ОС.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
+import RouterApi from "./api";
+import AuditLog, { withAuditContext } from "./audit-log";
+import ConnectionManager from "./connections-manager";
+import NasLocator from "./nas-locator";
+import { getNasConfig, getNasList, loadConfig, NasServer, resolveNas } from "./config-preloader";
+import { isIPv4, isIPv6, parseAddress, parseIPv4, parseIPv6Cidr } from "./address";
+import { tokenize } from "./request-parser";
+import { parseShape } from "./shape";
+import { toTarget } from "./subscriber";
+import { SESSION_KINDS, SessionKind } from "./sessions";
+import { RouterOSTrapError } from "./errors";
+
+const HISTORY_FILE = path.join(os.homedir(), ".rosctl_history");
+const HISTORY_SIZE = 500;
+const AUDIT_LIMIT = 20;
+
+const USAGE = `Usage: rosctl [--nas <nas>] [--json] [--columns a,b] <command> [args]
+
+Commands:
+  queue get <ip>            show subscriber queues
+  queue login <login>       show the queue named after a subscriber login
+  queue set <ip> <shape>    set subscriber speed: kbit or Mikrotik-Rate-Limit, e.g. "512k/2M"
+  queue remove <ip>         remove subscriber queues
+  lease show <ip>           show DHCP leases (DHCPv6 bindings for an IPv6 address or prefix)
+  lease remove <ip>         remove DHCP leases (DHCPv6 bindings)
+  lease make-static <ip>    turn dynamic DHCP leases into static ones
+  lease enable <ip>         enable DHCP leases
+  lease disable <ip>        disable DHCP leases
+  session show <ip|login>   show active PPP and hotspot sessions
+  session find <id>         find the session for a billing --session value
+  session remove <ip|login> terminate active PPP and hotspot sessions
+  nas list                  list configured NAS
+  nas ping                  connect and run /system/identity/print
+  nas locate <login> <ip>   find the NAS holding a subscriber's sessions, queues and leases
+  audit ip <ip> [n]         last n audit log entries for an IP (default 20)
+  audit login <login> [n]   last n audit log entries for a login
+  raw <word> [word ...]     run a raw API command, e.g. raw /ip/address/print ?interface=ether1
+  shell                     interactive mode`;
+
+/**
+ * Колонки таблицы по умолчанию; для raw выводятся все свойства
+ */
+const DEFAULT_COLUMNS: Record<string, string[]> = {
+  queue: [".id", "name", "target", "max-limit", "limit-at", "burst-limit", "queue", "comment"],
+  lease: [".id", "address", "mac-address", "status", "server", "dynamic", "disabled", "comment"],
+  binding: [".id", "address", "duid", "iaid", "status", "server", "last-seen"],
+  session: ["kind", ".id", "login", "address", "session-id", "uptime"],
+  audit: ["time", "operation", "nas", "target", "source", "login", "outcome", "error"],
+};
+
+/**
+ * Глобальные опции командной строки
+ */
+interface Options {
+  nas?: string;
+  json: boolean;
+  columns?: string[];
+}
+
+type Row = Record<string, string>;
+
+/**
+ * Ошибка использования: выводится вместе с подсказкой, код выхода 2
+ */
+class UsageError extends Error {}
+
+// ─────────────────────────── Вывод ───────────────────────────
+
+/**
+ * Убирает префикс "=" у свойств из ответа "!re"
+ */
+function toRow(attributes: object): Row {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([key, value]) => [key.replace(/^=/, ""), String(value)]),
+  );
+}
+
+function printTable(rows: Row[], columns?: string[]) {
+  if (rows.length === 0) {
+    console.log("(no rows)");
+    return;
+  }
+  const names = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const widths = names.map((name) =>
+    Math.max(name.length, ...rows.map((row) => (row[name] ?? "").length)),
+  );
+  const format = (cells: string[]) =>
+    cells.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd();
+  console.log(format(names.map((name) => name.toUpperCase())));
+  for (const row of rows) {
+    console.log(format(names.map((name) => row[name] ?? "")));
+  }
+}
+
+function printRows(rows: Iterable<object>, options: Options, defaults?: string[]) {
+  const list = [...rows].map(toRow);
+  if (options.json) {
+    console.log(JSON.stringify(list, null, 2));
+  } else {
+    printTable(list, options.columns ?? defaults);
+  }
+}
+
+function printResult(result: Record<string, unknown>, options: Options) {
+  if (options.json) {
+    console.log(JSON.stringify(result));
+  } else {
+    console.log(
+      Object.entries(result)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join("\n"),
+    );
+  }
+}
+
+// ─────────────────────────── Команды ───────────────────────────
+
+/**
+ * NAS для команды: из --nas или единственный включённый NAS из конфига
+ */
+function selectNas(options: Options): NasServer {
+  if (options.nas) return resolveNas(options.nas);
+  const list = getNasList();
+  if (list.length === 1) return list[0].address;
+  throw new UsageError(`--nas is required: ${list.length} NAS are configured`);
+}
+
+function requireArg(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+async function queueCommand(args: string[], options: Options) {
+  const nas = selectNas(options);
+  const [sub] = args;
+  if (sub === "login") {
+    const login = requireArg(args, 1, "login");
+    printRows(await RouterApi.getSubscriberQueues(nas, login), options, DEFAULT_COLUMNS.queue);
+    return;
+  }
+  const ip = parseAddress(requireArg(args, 1, "ip"), "ip");
+  switch (sub) {
+    case "get":
+      printRows(await RouterApi.getAddressQueues(nas, ip), options, DEFAULT_COLUMNS.queue);
+      return;
+    case "set": {
+      // Скорость в формате Mikrotik-Rate-Limit можно передать без кавычек
+      requireArg(args, 2, "shape");
+      const shape = parseShape(args.slice(2).join(" "), "shape");
+      // Очередь по адресу рядом с очередью абонента ограничивала бы его дважды
+      const subscriber = await RouterApi.findSubscriber(nas, ip);
+      if (subscriber) {
+        await RouterApi.setSubscriberQueue(nas, subscriber, shape);
+      } else {
+        await RouterApi.setQueue(nas, ip, shape);
+      }
+      printRows(await RouterApi.getAddressQueues(nas, ip), options, DEFAULT_COLUMNS.queue);
+      return;
+    }
+    case "remove":
+      await RouterApi.removeAddressQueues(nas, ip);
+      printResult({ removed: ip, nas }, options);
+      return;
+    default:
+      throw new UsageError(`Unknown queue command: ${sub}`);
+  }
+}
+
+async function leaseCommand(args: string[], options: Options) {
+  const nas = selectNas(options);
+  const [sub] = args;
+  const value = requireArg(args, 1, "ip");
+  if (value.includes(":")) {
+    return bindingCommand(sub, toTarget(parseIPv6Cidr(value, "ip")), nas, options);
+  }
+  const ip = parseIPv4(value, "ip");
+  switch (sub) {
+    case "show":
+      printRows(await RouterApi.getLease(nas, ip), options, DEFAULT_COLUMNS.lease);
+      return;
+    case "remove":
+      await RouterApi.removeLease(nas, ip);
+      printResult({ removed: ip, nas }, options);
+      return;
+    case "make-static":
+      printResult({ static: await RouterApi.makeStaticLease(nas, ip), nas }, options);
+      return;
+    case "enable":
+    case "disable":
+      await RouterApi.setLeaseEnabled(nas, ip, sub === "enable");
+      printRows(await RouterApi.getLease(nas, ip), options, DEFAULT_COLUMNS.lease);
+      return;
+    default:
+      throw new UsageError(`Unknown lease command: ${sub}`);
+  }
+}
+
+/**
+ * lease для IPv6 адреса или префикса — записи /ipv6/dhcp-server/binding
+ */
+async function bindingCommand(sub: string, prefix: string, nas: NasServer, options: Options) {
+  switch (sub) {
+    case "show":
+      printRows(await RouterApi.getBindings(nas, prefix), options, DEFAULT_COLUMNS.binding);
+      return;
+    case "remove":
+      await RouterApi.removeBindings(nas, prefix);
+      printResult({ removed: prefix, nas }, options);
+      return;
+    default:
+      throw new UsageError(`Unknown lease command: ${sub}`);
+  }
+}
+
+/**
+ * Строка таблицы сессий: логин в PPP называется "name", в hotspot — "user"
+ */
+function sessionRow(kind: SessionKind, entry: object): Row {
+  const row = toRow(entry);
+  return { kind, login: row.name ?? row.user, ...row };
+}
+
+async function sessionCommand(args: string[], options: Options) {
+  const nas = selectNas(options);
+  const [sub] = args;
+  const value = requireArg(args, 1, sub === "find" ? "id" : "ip|login");
+  if (sub === "find") {
+    const found = await RouterApi.findSession(nas, value);
+    const rows = found ? [sessionRow(found.kind, found.entry)] : [];
+    printRows(rows, options, DEFAULT_COLUMNS.session);
+    return;
+  }
+  const isAddress = isIPv4(value) || isIPv6(value);
+  const query = isAddress ? { ip: parseAddress(value, "ip") } : { login: value };
+  switch (sub) {
+    case "show": {
+      const rows: Row[] = [];
+      for (const kind of SESSION_KINDS) {
+        for (const entry of await RouterApi.getActiveSessions(nas, kind, query)) {
+          rows.push(sessionRow(kind, entry));
+        }
+      }
+      printRows(rows, options, DEFAULT_COLUMNS.session);
+      return;
+    }
+    case "remove": {
+      let removed = 0;
+      for (const kind of SESSION_KINDS) {
+        removed += await RouterApi.removeActiveSessions(nas, kind, query);
+      }
+      printResult({ removed, nas }, options);
+      return;
+    }
+    default:
+      throw new UsageError(`Unknown session command: ${sub}`);
+  }
+}
+
+async function nasCommand(args: string[], options: Options) {
+  const [sub] = args;
+  switch (sub) {
+    case "list": {
+      const rows = getNasList().map((nas) => ({
+        address: nas.address,
+        aliases: nas.aliases.join(","),
+        port: String(nas.port),
+        tls: nas.tls ? "yes" : "no",
+        mode: nas.mode,
+      }));
+      printRows(rows, options);
+      return;
+    }
+    case "ping": {
+      const nas = selectNas(options);
+      const started = Date.now();
+      const [identity] = await RouterApi.raw(nas, ["/system/identity/print"]);
+      const { port, tls } = getNasConfig(nas);
+      printResult(
+        {
+          nas,
+          port,
+          tls: tls ? "yes" : "no",
+          identity: identity?.["=name"] ?? "?",
+          time: `${Date.now() - started} ms`,
+        },
+        options,
+      );
+      return;
+    }
+    case "locate": {
+      const login = requireArg(args, 1, "login");
+      const ip = parseIPv4(requireArg(args, 2, "ip"), "ip");
+      const rows = (await NasLocator.find({ login, ip })).map((location) => ({
+        nas: location.nas,
+        sessions: String(location.sessions),
+        queues: String(location.queues),
+        leases: String(location.leases),
+      }));
+      printRows(rows, options);
+      return;
+    }
+    default:
+      throw new UsageError(`Unknown nas command: ${sub}`);
+  }
+}
+
+/**
+ * История изменений из журнала аудита; полное состояние до/после — с --json
+ */
+async function auditCommand(args: string[], options: Options) {
+  const [sub] = args;
+  const limit = args[2] === undefined ? AUDIT_LIMIT : Number(args[2]);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new UsageError(`Invalid count: ${args[2]}`);
+  }
+  let entries;
+  switch (sub) {
+    case "ip":
+      entries = await AuditLog.query({ ip: parseAddress(requireArg(args, 1, "ip"), "ip"), limit });
+      break;
+    case "login":
+      entries = await AuditLog.query({ login: requireArg(args, 1, "login"), limit });
+      break;
+    default:
+      throw new UsageError(`Unknown audit command: ${sub}`);
+  }
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+  const rows = entries.map((entry) => ({
+    time: entry.time,
+    operation: entry.operation,
+    nas: entry.nas,
+    target: entry.target,
+    source: entry.context?.source ?? "",
+    login: entry.context?.login ?? "",
+    outcome: entry.outcome,
+    error: entry.error ?? "",
+  }));
+  printTable(rows, options.columns ?? DEFAULT_COLUMNS.audit);
+}
+
+async function rawCommand(words: string[], options: Options) {
+  if (words.length === 0 || !words[0].startsWith("/")) {
+    throw new UsageError("raw expects a command path, e.g. /ip/address/print");
+  }
+  printRows(await RouterApi.raw(selectNas(options), words), options);
+}
+
+async function runCommand(args: string[], options: Options) {
+  const [command, ...rest] = args;
+  switch (command) {
+    case "queue":
+      return queueCommand(rest, options);
+    case "lease":
+      return leaseCommand(rest, options);
+    case "session":
+      return sessionCommand(rest, options);
+    case "nas":
+      return nasCommand(rest, options);
+    case "audit":
+      return auditCommand(rest, options);
+    case "raw":
+      return rawCommand(rest, options);
+    default:
+      throw new UsageError(command ? `Unknown command: ${command}` : "Missing command");
+  }
+}
+
+/**
+ * Выполняет команду с контекстом аудита: изменения на NAS помечаются пользователем ОС
+ */
+function runAudited(args: string[], options: Options) {
+  const context = {
+    source: "rosctl" as const,
+    actor: os.userInfo().username,
+    request: args.join(" "),
+  };
+  return withAuditContext(context, () => runCommand(args, options));
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof RouterOSTrapError) {
+    const category = error.categoryName ? ` (${error.categoryName})` : "";
+    return `trap${category}: ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// ─────────────────────────── Интерактивный режим ───────────────────────────
+
+function loadHistory(): string[] {
+  try {
+    // readline ожидает историю от новых записей к старым
+    return fs.readFileSync(HISTORY_FILE, "utf-8").split("\n").filter(Boolean).reverse();
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(history: string[]) {
+  try {
+    const lines = history.slice(0, HISTORY_SIZE).reverse();
+    fs.writeFileSync(HISTORY_FILE, lines.join("\n") + "\n", { mode: 0o600 });
+  } catch (err) {
+    console.error("Cannot save history:", describeError(err));
+  }
+}
+
+/**
+ * Интерактивный режим: строка "/path/cmd слово ..." выполняется как raw,
+ * остальные строки — как команды rosctl ("queue get 10.0.0.5"); "use <nas>" меняет NAS
+ */
+async function shell(options: Options) {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    history: loadHistory(),
+    historySize: HISTORY_SIZE,
+    removeHistoryDuplicates: true,
+  });
+  let history: string[] = [];
+  rl.on("history", (lines: string[]) => {
+    history = lines;
+  });
+
+  const prompt = () => {
+    rl.setPrompt(`${options.nas ?? "rosctl"}> `);
+    rl.prompt();
+  };
+
+  prompt();
+  for await (const line of rl) {
+    try {
+      const words = tokenize(line);
+      const [first, ...rest] = words;
+      if (first === undefined) {
+        // пустая строка
+      } else if (first === "exit" || first === "quit") {
+        break;
+      } else if (first === "help") {
+        console.log(USAGE + "\n  use <nas>                 switch NAS\n  exit");
+      } else if (first === "use") {
+        options.nas = resolveNas(requireArg(rest, 0, "nas"));
+      } else if (first.startsWith("/")) {
+        await rawCommand(words, options);
+      } else {
+        await runAudited(words, options);
+      }
+    } catch (err) {
+      console.error(`error: ${describeError(err)}`);
+    }
+    prompt();
+  }
+  rl.close();
+  saveHistory(history);
+}
+
+// ─────────────────────────── Запуск ───────────────────────────
+
+/**
+ * Разбирает глобальные опции; остальные аргументы — команда
+ */
+function parseArgs(argv: string[]): { options: Options; args: string[] } {
+  const options: Options = { json: false };
+  const args: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "--nas") {
+      options.nas = requireArg(argv, ++i, "nas");
+    } else if (arg === "--columns") {
+      options.columns = requireArg(argv, ++i, "columns").split(",");
+    } else if (arg === "-h" || arg === "--help") {
+      args.unshift("help");
+    } else {
+      args.push(arg);
+    }
+  }
+  return { options, args };
+}
+
+async function main(): Promise<number> {
+  let code = 0;
+  try {
+    const { options, args } = parseArgs(process.argv.slice(2));
+    if (args[0] === "help") {
+      console.log(USAGE);
+      return 0;
+    }
+    loadConfig();
+    if (args[0] === "shell") {
+      await shell(options);
+    } else {
+      await runAudited(args, options);
+    }
+  } catch (err) {
+    console.error(`error: ${describeError(err)}`);
+    if (err instanceof UsageError) console.error(USAGE);
+    code = err instanceof UsageError ? 2 : 1;
+  } finally {
+    await ConnectionManager.closeAll();
+  }
+  return code;
+}
+
+main().then((code) => process.exit(code));
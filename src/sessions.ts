@@ -0,0 +1,72 @@
+// sessions.ts
+// Активные сессии абонентов на NAS: /ppp/active (PPPoE, L2TP, PPTP) и /ip/hotspot/active.
+//
+// - Сессию ищут по логину, IP или идентификатору сессии; условия объединяются через И.
+// - Биллинг получает Acct-Session-Id из RADIUS accounting ("81800004"), а RouterOS печатает
+//   его в session-id с префиксом и в другом регистре ("0x81800004"), поэтому поиск по сессии
+//   перебирает все эти варианты.
+
+import { RequestError } from "./errors";
+
+/**
+ * Вид активной сессии: "ppp" — /ppp/active, "hotspot" — /ip/hotspot/active
+ */
+export type SessionKind = "ppp" | "hotspot";
+
+export const SESSION_KINDS: readonly SessionKind[] = ["ppp", "hotspot"];
+
+/**
+ * Таблица RouterOS для вида сессии
+ * path - путь меню
+ * login - свойство с логином абонента (в PPP "name", в hotspot "user")
+ */
+export const SESSION_TABLES: Record<SessionKind, { path: string; login: string }> = {
+  ppp: { path: "/ppp/active", login: "name" },
+  hotspot: { path: "/ip/hotspot/active", login: "user" },
+};
+
+/**
+ * Отбор сессий; нужно хотя бы одно условие
+ * login - логин абонента
+ * ip - адрес сессии
+ * session - идентификатор сессии (Acct-Session-Id из биллинга)
+ */
+export interface SessionQuery {
+  login?: string;
+  ip?: string;
+  session?: string;
+}
+
+/**
+ * Проверяет, что в отборе есть хотя бы одно условие: пустой отбор затронул бы все сессии NAS
+ * @throws RequestError если условий нет
+ */
+export function requireCriteria(query: SessionQuery): SessionQuery {
+  if (!query.login && !query.ip && !query.session) {
+    throw new RequestError("Session lookup needs a login, an IP or a session id");
+  }
+  return query;
+}
+
+/**
+ * Варианты записи идентификатора сессии, под которыми RouterOS может его печатать
+ * @example sessionIdVariants("81a00004") // ["81a00004", "0x81a00004", "81A00004", "0x81A00004"]
+ */
+export function sessionIdVariants(session: string): string[] {
+  const id = session.replace(/^0x/i, "");
+  const variants = [id, id.toLowerCase(), id.toUpperCase()].flatMap((value) => [
+    value,
+    `0x${value}`,
+  ]);
+  return [...new Set(variants)];
+}
+
+/**
+ * Описание отбора для журнала аудита и сообщений: "login=ivanov ip=10.0.0.5"
+ */
+export function describeQuery(query: SessionQuery): string {
+  return Object.entries(query)
+    .filter(([, value]) => value)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(" ");
+}
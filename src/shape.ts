@@ -0,0 +1,246 @@
+// shape.ts
+// Тарифная скорость абонента (ShapeProfile) и её представления.
+//
+// Биллинг передаёт --shape одним из способов:
+//   10000                      одно число в kbit: 10M/10M (как "${SHAPE}k" в старом скрипте)
+//   512k/2M                    upload/download
+//   10M/20M 15M/30M 8M/16M 8/8 5 2M/4M
+//                              формат атрибута Mikrotik-Rate-Limit:
+//   rx-rate[/tx-rate] [rx-burst-rate[/tx-burst-rate] [rx-burst-threshold[/tx-burst-threshold]
+//   [rx-burst-time[/tx-burst-time] [priority] [rx-rate-min[/tx-rate-min]]]]]
+//
+// rx — то, что NAS принимает от абонента (upload), tx — то, что отдаёт (download).
+// Скорость без суффикса — kbit, суффиксы k, M, G; время burst — секунды ("8" или "8s").
+// В simple queue пары записываются в том же порядке: upload/download (target-upload/download).
+
+import { RequestError } from "./errors";
+
+/**
+ * Пара значений upload/download
+ */
+export interface RatePair {
+  upload: number;
+  download: number;
+}
+
+/**
+ * Burst: скорость burst-limit разрешается, пока средняя скорость за burst-time
+ * ниже burst-threshold
+ * limit, threshold - kbit/s; time - секунды
+ */
+export interface ShapeBurst {
+  limit: RatePair;
+  threshold: RatePair;
+  time: RatePair;
+}
+
+/**
+ * Скорость абонента
+ * maxLimit - максимальная скорость, kbit/s
+ * limitAt - гарантированная скорость, kbit/s
+ * burst - параметры burst
+ * priority - приоритет очереди 1..8 (1 — наивысший)
+ */
+export interface ShapeProfile {
+  maxLimit: RatePair;
+  limitAt?: RatePair;
+  burst?: ShapeBurst;
+  priority?: number;
+}
+
+/**
+ * Тип очереди RouterOS по умолчанию для simple queue
+ */
+export const DEFAULT_QUEUE_TYPE = "default-small/default-small";
+
+const RATE_PATTERN = /^(\d+(?:\.\d+)?)([kKMG]?)$/;
+const TIME_PATTERN = /^(\d+)(s?)$/;
+const NO_RATE: RatePair = { upload: 0, download: 0 };
+
+/**
+ * Множители суффиксов скорости относительно kbit
+ */
+const KBIT_MULTIPLIERS: Record<string, number> = { "": 1, k: 1, K: 1, M: 1000, G: 1_000_000 };
+
+/**
+ * Единицы времени RouterOS в секундах ("1m30s")
+ */
+const TIME_UNITS: Record<string, number> = { "": 1, s: 1, m: 60, h: 3600 };
+
+// ─────────────────────────── Разбор --shape ───────────────────────────
+
+function parseRate(value: string, field: string): number {
+  const match = RATE_PATTERN.exec(value);
+  const kbit = match ? Math.round(Number(match[1]) * KBIT_MULTIPLIERS[match[2]]) : NaN;
+  if (!Number.isSafeInteger(kbit)) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not a rate`);
+  }
+  return kbit;
+}
+
+function parseSeconds(value: string, field: string): number {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} is not a time in seconds`);
+  }
+  return Number(match[1]);
+}
+
+/**
+ * Разбирает пару "rx/tx"; без "/" значение относится к обоим направлениям
+ */
+function parsePair(
+  value: string,
+  field: string,
+  parse: (value: string, field: string) => number,
+): RatePair {
+  const parts = value.split("/");
+  if (parts.length > 2) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)}, expected upload/download`);
+  }
+  const upload = parse(parts[0], field);
+  return { upload, download: parts.length === 2 ? parse(parts[1], field) : upload };
+}
+
+/**
+ * Разбирает скорость из биллинга
+ * @param value - Число в kbit или строка в формате Mikrotik-Rate-Limit
+ * @param field - Имя параметра для сообщения об ошибке, например "--shape"
+ * @throws RequestError если формат неверен или максимальная скорость равна нулю
+ */
+export function parseShape(value: string, field: string): ShapeProfile {
+  const words = value.trim().split(/\s+/);
+  if (words.length > 6) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)} has too many fields`);
+  }
+  const [rate, burstRate, burstThreshold, burstTime, priority, rateMin] = words;
+
+  const profile: ShapeProfile = { maxLimit: parsePair(rate, field, parseRate) };
+  if (profile.maxLimit.upload === 0 || profile.maxLimit.download === 0) {
+    throw new RequestError(`Invalid ${field}: ${JSON.stringify(value)}, rate must not be zero`);
+  }
+  if (burstRate !== undefined) {
+    const burst = {
+      limit: parsePair(burstRate, field, parseRate),
+      threshold: parsePair(burstThreshold ?? "0", field, parseRate),
+      time: parsePair(burstTime ?? "0", field, parseSeconds),
+    };
+    // Нулевой burst-limit в Mikrotik-Rate-Limit означает "без burst"
+    if (burst.limit.upload !== 0 || burst.limit.download !== 0) {
+      profile.burst = burst;
+    }
+  }
+  if (priority !== undefined) {
+    const level = Number(priority);
+    if (!Number.isInteger(level) || level < 1 || level > 8) {
+      throw new RequestError(`Invalid ${field}: priority ${JSON.stringify(priority)} is not 1..8`);
+    }
+    profile.priority = level;
+  }
+  if (rateMin !== undefined) {
+    profile.limitAt = parsePair(rateMin, field, parseRate);
+  }
+  return profile;
+}
+
+/**
+ * Симметричная скорость без burst
+ * @param kbit - Скорость в kbit/s для upload и download
+ */
+export function symmetricShape(kbit: number): ShapeProfile {
+  return { maxLimit: { upload: kbit, download: kbit } };
+}
+
+// ─────────────────────────── Форматирование ───────────────────────────
+
+/**
+ * Скорость в kbit -> "512k", "10M", "1G"
+ */
+function formatRate(kbit: number): string {
+  if (kbit === 0) return "0";
+  if (kbit % 1_000_000 === 0) return `${kbit / 1_000_000}G`;
+  if (kbit % 1000 === 0) return `${kbit / 1000}M`;
+  return `${kbit}k`;
+}
+
+function formatPair(pair: RatePair, format: (value: number) => string): string {
+  return `${format(pair.upload)}/${format(pair.download)}`;
+}
+
+/**
+ * Значение атрибута Mikrotik-Rate-Limit для RADIUS CoA; также используется в логах
+ */
+export function formatRateLimit(profile: ShapeProfile): string {
+  const words = [formatPair(profile.maxLimit, formatRate)];
+  const { burst, priority, limitAt } = profile;
+  if (burst || priority !== undefined || limitAt) {
+    words.push(
+      formatPair(burst?.limit ?? NO_RATE, formatRate),
+      formatPair(burst?.threshold ?? NO_RATE, formatRate),
+      formatPair(burst?.time ?? NO_RATE, String),
+    );
+  }
+  if (priority !== undefined || limitAt) {
+    words.push(String(priority ?? 8));
+  }
+  if (limitAt) {
+    words.push(formatPair(limitAt, formatRate));
+  }
+  return words.join(" ");
+}
+
+// ─────────────────────────── Simple queue ───────────────────────────
+
+/**
+ * Атрибуты /queue/simple для скорости; незаданные параметры сбрасываются к значениям
+ * RouterOS по умолчанию, чтобы смена тарифа убирала burst и приоритет прежнего
+ * @param queueType - Тип очереди "upload/download" (см. queueType в nas-config.json)
+ */
+export function queueAttributes(profile: ShapeProfile, queueType: string): Record<string, string> {
+  const priority = profile.priority ?? 8;
+  return {
+    "max-limit": formatPair(profile.maxLimit, formatRate),
+    "limit-at": formatPair(profile.limitAt ?? NO_RATE, formatRate),
+    "burst-limit": formatPair(profile.burst?.limit ?? NO_RATE, formatRate),
+    "burst-threshold": formatPair(profile.burst?.threshold ?? NO_RATE, formatRate),
+    "burst-time": formatPair(profile.burst?.time ?? NO_RATE, (seconds) => `${seconds}s`),
+    priority: `${priority}/${priority}`,
+    queue: queueType,
+  };
+}
+
+/**
+ * Приводит половину значения RouterOS к числу: скорости — в бит/с, время — в секундах
+ * RouterOS печатает скорость без суффикса в бит/с ("10000000") или с суффиксом ("10M"),
+ * время — "8s", "1m30s" или "00:00:08"
+ */
+function normalizeHalf(key: string, value: string): string {
+  if (key === "queue") return value;
+  if (key === "burst-time") {
+    const clock = /^(\d+):(\d+):(\d+)$/.exec(value);
+    if (clock) return String(Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3]));
+    let seconds = 0;
+    for (const [, amount, unit] of value.matchAll(/(\d+)([hms]?)/g)) {
+      seconds += Number(amount) * TIME_UNITS[unit];
+    }
+    return String(seconds);
+  }
+  const match = RATE_PATTERN.exec(value);
+  if (!match) return value;
+  const bits = match[2] === "" ? 1 : 1000 * KBIT_MULTIPLIERS[match[2]];
+  return String(Math.round(Number(match[1]) * bits));
+}
+
+/**
+ * Сравнивает значение атрибута очереди на роутере с требуемым без учёта записи единиц
+ * @example sameQueueValue("max-limit", "10000000/10000000", "10M/10M") // true
+ */
+export function sameQueueValue(key: string, current: string | undefined, wanted: string): boolean {
+  if (current === undefined) return false;
+  const normalize = (value: string) =>
+    value
+      .split("/")
+      .map((half) => normalizeHalf(key, half))
+      .join("/");
+  return normalize(current) === normalize(wanted);
+}
@@ -0,0 +1,72 @@
+// subscriber.ts
+// Очередь абонента на NAS: по чему её искать и как подписывать.
+//
+// - Очередь абонента называется по логину ("sub-<логин>"), поэтому находится по логину
+//   одним запросом "?name=" независимо от того, какие адреса у абонента сейчас.
+// - В комментарии очереди — логин и текущая сессия: "login=ivanov session=5f3a".
+// - Одна очередь может ограничивать несколько адресов и сетей: target "10.0.0.5/32,10.1.0.0/29".
+//   Скорость тогда делится между всеми адресами абонента, в том числе между IPv4 и IPv6
+//   (адрес /128 и делегированный префикс /56 или /64) у абонента с dual-stack.
+
+import { Cidr, hostCidr } from "./address";
+
+/**
+ * Абонент, которому принадлежит очередь
+ * login - логин из биллинга
+ * session - текущая сессия, пишется в комментарий очереди
+ * targets - адреса и сети абонента в записи CIDR: "10.0.0.5/32", "10.1.0.0/29", "2001:db8:100::/56"
+ */
+export interface Subscriber {
+  login: string;
+  session?: string;
+  targets: string[];
+}
+
+const QUEUE_NAME_PREFIX = "sub-";
+
+/**
+ * Имя очереди абонента
+ */
+export function queueName(login: string): string {
+  return `${QUEUE_NAME_PREFIX}${login}`;
+}
+
+/**
+ * Комментарий очереди абонента
+ */
+export function queueComment({ login, session }: Subscriber): string {
+  return session ? `login=${login} session=${session}` : `login=${login}`;
+}
+
+/**
+ * Абонент по его очереди: логин из имени "sub-<логин>", сессия из комментария
+ * @returns undefined, если очередь создана не для абонента (например, по адресу)
+ */
+export function subscriberOfQueue(
+  name: string,
+  target: string,
+  comment = "",
+): Subscriber | undefined {
+  if (!name.startsWith(QUEUE_NAME_PREFIX)) return undefined;
+  const session = /(?:^|\s)session=(\S+)/.exec(comment)?.[1];
+  return { login: name.slice(QUEUE_NAME_PREFIX.length), session, targets: target.split(",") };
+}
+
+/**
+ * Адрес или сеть абонента в записи target очереди
+ * Одиночный адрес получает префикс /32 (IPv4) или /128 (IPv6), строка с "/" остаётся как есть
+ */
+export function toTarget(address: string | Cidr): string {
+  if (typeof address === "string" && address.includes("/")) return address;
+  const cidr = typeof address === "string" ? hostCidr(address) : address;
+  return `${cidr.address}/${cidr.prefix}`;
+}
+
+/**
+ * Сравнивает списки target без учёта порядка: RouterOS хранит их через запятую
+ */
+export function sameTargets(current: string | undefined, targets: string[]): boolean {
+  if (current === undefined) return false;
+  const normalize = (list: string[]) => [...new Set(list)].sort().join(",");
+  return normalize(current.split(",")) === normalize(targets);
+}
@@ -0,0 +1,184 @@
+import ConnectionManager from "./connections-manager";
+import { NasServer } from "./config-preloader";
+import { RouterOSTrapError } from "./errors";
+import { trapsTotal } from "./metrics";
+import { TaggedCommand } from "./ros-openai";
+
+/**
+ * Событие подписки:
+ *  - "update" — запись добавлена или изменена (очередной "!re")
+ *  - "removed" — запись удалена ("!re" с =.dead=yes, приходит только =.id)
+ *  - "resync" — подписка восстановлена после обрыва соединения; изменения за время обрыва
+ *    потеряны, состояние нужно перечитать через print
+ */
+export type SubscriptionEvent<T> =
+  | { type: "update"; item: T }
+  | { type: "removed"; id: string }
+  | { type: "resync" };
+
+/**
+ * Паузы между попытками переподписаться после обрыва
+ */
+const RESUBSCRIBE_BACKOFF_BASE = 1_000;
+const RESUBSCRIBE_BACKOFF_MAX = 60_000;
+
+/**
+ * Категория '!trap', которую RouterOS присылает отменённой через /cancel команде
+ */
+const TRAP_INTERRUPTED = 2;
+
+/**
+ * Subscription — долгоживущая команда RouterOS (например, /ip/dhcp-server/lease/listen
+ * или /interface/monitor-traffic) в виде асинхронного итератора событий.
+ *
+ *  - команда выполняется на отдельном соединении вне пула (ConnectionManager.openDedicated) с TCP
+ *    keepalive, поэтому не занимает соединения пула, сколько бы ни жила
+ *  - при обрыве соединения подписка возобновляется на новом соединении с экспоненциальной паузой,
+ *    потребитель получает событие "resync"
+ *  - close() отменяет команду через /cancel и завершает итерацию
+ *  - '!trap' (кроме отмены) завершает итерацию ошибкой RouterOSTrapError
+ */
+export class Subscription<T> implements AsyncIterable<SubscriptionEvent<T>> {
+  private events: SubscriptionEvent<T>[] = [];
+  private waiters: Array<{
+    resolve: (r: IteratorResult<SubscriptionEvent<T>>) => void;
+    reject: (e: any) => void;
+  }> = [];
+  private current: TaggedCommand | null = null;
+  private closed = false;
+  private finished = false;
+  private error: unknown = null;
+  private wakeUp: (() => void) | null = null;
+
+  /**
+   * @param nas - Адрес NAS устройства
+   * @param command - Команда подписки, например ["/ip/dhcp-server/lease/listen"]
+   */
+  constructor(
+    readonly nas: NasServer,
+    readonly command: string[],
+  ) {
+    void this.run();
+  }
+
+  /**
+   * Отменяет подписку. Итерация завершится после уже полученных событий
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    this.wakeUp?.();
+    await this.current?.cancel().catch(() => {});
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<SubscriptionEvent<T>> {
+    return {
+      next: () => this.next(),
+      return: async () => {
+        await this.close();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  private next(): Promise<IteratorResult<SubscriptionEvent<T>>> {
+    if (this.events.length) {
+      return Promise.resolve({ done: false, value: this.events.shift()! });
+    }
+    if (this.error) return Promise.reject(this.error);
+    if (this.finished) return Promise.resolve({ done: true, value: undefined });
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  private push(event: SubscriptionEvent<T>) {
+    const waiter = this.waiters.shift();
+    if (waiter) waiter.resolve({ done: false, value: event });
+    else this.events.push(event);
+  }
+
+  private finish(error: unknown = null) {
+    this.finished = true;
+    this.error = error;
+    while (this.waiters.length) {
+      const waiter = this.waiters.shift()!;
+      if (error) waiter.reject(error);
+      else waiter.resolve({ done: true, value: undefined });
+    }
+  }
+
+  /**
+   * Основной цикл: выполняет команду и переподписывается при обрыве соединения
+   */
+  private async run() {
+    let failures = 0;
+    let restarted = false;
+
+    while (!this.closed) {
+      let conn;
+      try {
+        conn = await ConnectionManager.openDedicated(this.nas);
+        if (this.closed) break;
+        this.current = conn.command(this.command);
+        if (restarted) this.push({ type: "resync" });
+
+        for await (const [reply, attributes] of this.current.replies) {
+          failures = 0;
+          if (reply === "!re") {
+            if (attributes["=.dead"] === "yes") {
+              this.push({ type: "removed", id: attributes["=.id"] });
+            } else {
+              this.push({ type: "update", item: attributes as T });
+            }
+          }
+          const category = attributes["=category"];
+          const cancelled = this.closed && category === String(TRAP_INTERRUPTED);
+          if (reply === "!trap" && !cancelled) {
+            trapsTotal.inc({ nas: this.nas, category: category ?? "none" });
+            throw new RouterOSTrapError(
+              attributes["=message"] ?? "unknown error",
+              this.nas,
+              this.command,
+              category === undefined ? undefined : Number(category),
+            );
+          }
+        }
+        // Команда завершилась сама ('!done' без отмены) — событий больше не будет
+        break;
+      } catch (err) {
+        if (this.closed) break;
+        if (err instanceof RouterOSTrapError) {
+          this.finish(err);
+          return;
+        }
+        failures++;
+        restarted = true;
+        const delay = Math.min(
+          RESUBSCRIBE_BACKOFF_BASE * 2 ** (failures - 1),
+          RESUBSCRIBE_BACKOFF_MAX,
+        );
+        console.error(
+          `[Subscription] ${this.command[0]} on ${this.nas} lost, retry in ${delay} ms:`,
+          String(err),
+        );
+        await this.sleep(delay);
+      } finally {
+        this.current = null;
+        if (conn) void conn.close();
+      }
+    }
+    this.finish();
+  }
+
+  /**
+   * Пауза, которую прерывает close()
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,100 @@
+// api.test.ts
+// RouterAPI и пул соединений против эмулятора: идемпотентность и откат setQueue, '!trap',
+// переиспользование и восстановление соединений.
+
+import { removeTestDir, writeConfig } from "./environment";
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import RouterApi from "../src/api";
+import AuditLog from "../src/audit-log";
+import ConnectionManager from "../src/connections-manager";
+import { loadConfig } from "../src/config-preloader";
+import { RouterOSTrapError } from "../src/errors";
+import { parseShape } from "../src/shape";
+import { RouterOSEmulator } from "./routeros-emulator";
+
+const NAS = "127.0.0.1";
+
+describe("RouterAPI", () => {
+  const emulator = new RouterOSEmulator({ users: { api: "secret" } });
+  const queues = emulator.table("/queue/simple");
+
+  /**
+   * Команды, отправленные эмулятору после отметки
+   */
+  const sentSince = (mark: number) => emulator.received.slice(mark).map(([word]) => word);
+
+  before(async () => {
+    writeConfig({ [NAS]: { port: await emulator.listen(), aliases: ["local"] } });
+    loadConfig();
+  });
+
+  afterEach(() => {
+    emulator.faults = {};
+    queues.clear();
+  });
+
+  after(async () => {
+    await AuditLog.query();
+    await ConnectionManager.closeAll();
+    await emulator.close();
+    removeTestDir();
+  });
+
+  it("creates a queue once and does not rewrite it when nothing changed", async () => {
+    const shape = parseShape("10M", "--shape");
+    await RouterApi.setQueue(NAS, "10.0.0.5", shape);
+    assert.deepEqual(
+      queues.all().map((queue) => [queue.target, queue["max-limit"]]),
+      [["10.0.0.5/32", "10M/10M"]],
+    );
+
+    const mark = emulator.received.length;
+    await RouterApi.setQueue(NAS, "10.0.0.5", shape);
+    // Только чтение: проверка текущего состояния и снимки для журнала аудита
+    assert.ok(sentSince(mark).every((word) => word === "/queue/simple/print"));
+    assert.equal(queues.all().length, 1);
+  });
+
+  it("rolls back removed queues when the replacement is rejected", async () => {
+    queues.add({ name: "old-1", target: "10.0.0.5/32", "max-limit": "5M/5M" });
+    queues.add({ name: "old-2", target: "10.0.0.5/32", "max-limit": "5M/5M" });
+    emulator.faults.trapOn = { command: "/queue/simple/add", message: "failure", times: 1 };
+
+    await assert.rejects(
+      RouterApi.setQueue(NAS, "10.0.0.5", parseShape("10M", "--shape")),
+      RouterOSTrapError,
+    );
+    assert.deepEqual(
+      queues.all().map((queue) => [queue.name, queue.target, queue["max-limit"]]),
+      [
+        ["old-1", "10.0.0.5/32", "5M/5M"],
+        ["old-2", "10.0.0.5/32", "5M/5M"],
+      ],
+    );
+  });
+
+  it("passes '!trap' with its category to the caller", async () => {
+    emulator.faults.trapOn = { command: "/queue/simple/print", message: "no access", category: 5 };
+    await assert.rejects(RouterApi.getQueues(NAS, "10.0.0.5"), (err: unknown) => {
+      assert.ok(err instanceof RouterOSTrapError);
+      assert.equal(err.category, 5);
+      assert.equal(err.nas, NAS);
+      assert.match(err.message, /no access/);
+      return true;
+    });
+  });
+
+  it("reuses a pooled connection and reconnects after the router drops it", async () => {
+    await RouterApi.getQueues(NAS);
+    await RouterApi.getQueues(NAS);
+    assert.equal(emulator.connections, 1);
+
+    // Клиент узнаёт об обрыве, когда сокет закрывается; закрытое соединение пул выбрасывает
+    emulator.dropConnections();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    queues.add({ name: "sub-petrov", target: "10.0.0.7/32" });
+    const found = await RouterApi.getSubscriberQueues(NAS, "petrov");
+    assert.equal(found.size, 1);
+  });
+});
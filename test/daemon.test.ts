@@ -0,0 +1,98 @@
+// daemon.test.ts
+// Демон целиком: отдельный процесс с конфигом на эмуляторе, ответы протокола версии 1
+// (EXEC -> OK/ERROR) и устаревший режим.
+
+import { removeTestDir, writeConfig } from "./environment";
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "node:child_process";
+import { once } from "node:events";
+import * as net from "node:net";
+import * as path from "node:path";
+import { RouterOSEmulator } from "./routeros-emulator";
+
+const SOCKET_PATH = process.env.SOCKET_PATH!;
+
+/**
+ * Отправляет строки в сокет демона и собирает ответы, пока демон не закроет соединение
+ * @param chunks - Данные по частям: каждая часть отправляется отдельной записью
+ */
+async function talk(chunks: string[]): Promise<string[]> {
+  const socket = net.createConnection(SOCKET_PATH);
+  await once(socket, "connect");
+  let received = "";
+  socket.on("data", (data) => (received += data.toString()));
+  for (const chunk of chunks) {
+    socket.write(chunk);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  socket.end();
+  await once(socket, "close");
+  return received.split("\n").filter((line) => line !== "");
+}
+
+describe("daemon", () => {
+  const emulator = new RouterOSEmulator({ users: { api: "secret" } });
+  const queues = emulator.table("/queue/simple");
+  let daemon: ChildProcess;
+
+  before(async () => {
+    writeConfig({ "127.0.0.1": { port: await emulator.listen() } });
+    daemon = spawn(process.execPath, ["--import", "tsx", path.join("src", "daemon.ts")], {
+      cwd: path.join(__dirname, ".."),
+      stdio: ["ignore", "pipe", "inherit"],
+    });
+    let output = "";
+    daemon.stdout!.on("data", (data) => (output += data.toString()));
+    while (!output.includes("Server listening")) {
+      const [code] = await Promise.race([once(daemon.stdout!, "data"), once(daemon, "exit")]);
+      if (typeof code === "number") throw new Error(`Daemon exited with code ${code}`);
+    }
+  });
+
+  after(async () => {
+    if (daemon.exitCode === null) {
+      daemon.kill("SIGINT");
+      await once(daemon, "exit");
+    }
+    await emulator.close();
+    removeTestDir();
+  });
+
+  it("answers EXEC with OK after the command is applied", async () => {
+    const replies = await talk([
+      "PROTO 1\n",
+      "EXEC 1 --action start --login ivanov --nas 127.0.0.1 --ip 10.0.0.5 --shape 10M\n",
+    ]);
+    assert.deepEqual(replies, ["PROTO 1", "OK 1"]);
+    assert.deepEqual(
+      queues.all().map((queue) => [queue.name, queue.target, queue["max-limit"]]),
+      [["sub-ivanov", "10.0.0.5/32", "10M/10M"]],
+    );
+  });
+
+  it("answers a malformed request with ERROR BAD_REQUEST", async () => {
+    const replies = await talk(["PROTO 1\n", "EXEC 2 --action bogus --login x --ip 10.0.0.9\n"]);
+    assert.equal(replies.length, 2);
+    assert.match(replies[1], /^ERROR 2 BAD_REQUEST Unknown action "bogus"/);
+  });
+
+  it("answers a '!trap' from the router with ERROR ROUTEROS_TRAP", async () => {
+    emulator.faults.trapOn = { command: "/queue/simple/add", message: "failure", times: 1 };
+    const replies = await talk([
+      "PROTO 1\n",
+      "EXEC 3 --action start --login petrov --nas 127.0.0.1 --ip 10.0.0.7 --shape 5M\n",
+    ]);
+    emulator.faults = {};
+    assert.equal(replies.length, 2);
+    assert.match(replies[1], /^ERROR 3 ROUTEROS_TRAP .*failure/);
+  });
+
+  it("accepts a legacy command that arrives in parts", async () => {
+    const replies = await talk([
+      "--action start --login sidorov ",
+      "--nas 127.0.0.1 --ip 10.0.0.8 --shape 1M",
+    ]);
+    assert.deepEqual(replies, ["OK"]);
+  });
+});
@@ -0,0 +1,39 @@
+// environment.ts
+// Окружение интеграционных тестов: конфиг NAS, очередь задач, журнал аудита и сокет демона
+// во временном каталоге, а не в корне проекта.
+// Импортируется тестом первым, до модулей src: они читают пути из переменных окружения
+// при загрузке. Поэтому сам модуль ничего из src не импортирует.
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "ros-api-test-"));
+
+process.env.NAS_CONFIG = path.join(TEST_DIR, "nas-config.json");
+process.env.QUEUE_DIR = path.join(TEST_DIR, "queue");
+process.env.LOG_DIR = path.join(TEST_DIR, "logs");
+process.env.SOCKET_PATH = path.join(TEST_DIR, "mikrotik.sock");
+
+/**
+ * Учётная запись API, которую принимает эмулятор в тестах
+ */
+export const API_USER = { user: "api", password: "secret" };
+
+/**
+ * Записывает nas-config.json: NAS на эмуляторах с указанными портами
+ * @param servers - Адрес NAS -> порт эмулятора и дополнительные параметры NAS
+ */
+export function writeConfig(servers: Record<string, { port: number } & object>): void {
+  const config = Object.fromEntries(
+    Object.entries(servers).map(([address, nas]) => [address, { ...API_USER, ...nas }]),
+  );
+  fs.writeFileSync(process.env.NAS_CONFIG!, JSON.stringify({ servers: config }, null, 2));
+}
+
+/**
+ * Удаляет временный каталог тестов
+ */
+export function removeTestDir(): void {
+  fs.rmSync(TEST_DIR, { recursive: true, force: true });
+}
@@ -0,0 +1,61 @@
+// nas-locator.test.ts
+// Поиск NAS абонента по двум эмуляторам: порядок по следам абонента и повтор, если NAS не ответил.
+
+import { removeTestDir, writeConfig } from "./environment";
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import ConnectionManager from "../src/connections-manager";
+import NasLocator from "../src/nas-locator";
+import { loadConfig } from "../src/config-preloader";
+import { ConnectionError } from "../src/errors";
+import { RouterOSEmulator } from "./routeros-emulator";
+
+const QUERY = { login: "ivanov", ip: "10.0.0.5" };
+
+describe("NasLocator", () => {
+  const first = new RouterOSEmulator({ users: { api: "secret" } });
+  const second = new RouterOSEmulator({ users: { api: "secret" } });
+
+  before(async () => {
+    writeConfig({
+      "127.0.0.1": { port: await first.listen(), sessions: ["ppp"] },
+      "127.0.0.2": { port: await second.listen(0, "127.0.0.2"), sessions: ["ppp"] },
+    });
+    loadConfig();
+  });
+
+  afterEach(() => {
+    for (const emulator of [first, second]) {
+      emulator.faults = {};
+      emulator.table("/ppp/active").clear();
+      emulator.table("/ip/dhcp-server/lease").clear();
+    }
+  });
+
+  after(async () => {
+    await ConnectionManager.closeAll();
+    await first.close();
+    await second.close();
+    removeTestDir();
+  });
+
+  it("puts the NAS with an active session before the NAS with a stale lease", async () => {
+    first.table("/ip/dhcp-server/lease").add({ address: "10.0.0.5" });
+    second.table("/ppp/active").add({ name: "ivanov", address: "10.0.0.5" });
+    assert.deepEqual(await NasLocator.locate(QUERY, true), ["127.0.0.2", "127.0.0.1"]);
+  });
+
+  it("returns nothing when every NAS answered and the subscriber is not found", async () => {
+    assert.deepEqual(await NasLocator.locate(QUERY, true), []);
+  });
+
+  it("throws ConnectionError when not found and a NAS did not answer", async () => {
+    await ConnectionManager.closeAll();
+    second.faults.refuseLogin = true;
+    await assert.rejects(NasLocator.locate(QUERY, true), (err: unknown) => {
+      assert.ok(err instanceof ConnectionError);
+      assert.equal(err.nas, "127.0.0.2");
+      return true;
+    });
+  });
+});
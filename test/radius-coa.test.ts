@@ -0,0 +1,119 @@
+// radius-coa.test.ts
+// Проверка подписи CoA-Request и ответа NAS на локальном UDP респондере.
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import dgram from "dgram";
+import crypto from "crypto";
+import { AddressInfo } from "net";
+import { RadiusCoAClient, RadiusCode } from "../src/radius-coa";
+
+const SECRET = "testing123";
+const MESSAGE_AUTHENTICATOR = 80;
+
+/**
+ * Смещение значения Message-Authenticator в пакете или -1
+ */
+function messageAuthenticatorOffset(packet: Buffer): number {
+  let offset = 20;
+  while (offset + 2 <= packet.length) {
+    if (packet[offset] === MESSAGE_AUTHENTICATOR && packet[offset + 1] === 18) return offset + 2;
+    offset += packet[offset + 1];
+  }
+  return -1;
+}
+
+function md5(...parts: Buffer[]): Buffer {
+  const hash = crypto.createHash("md5");
+  parts.forEach((part) => hash.update(part));
+  return hash.digest();
+}
+
+function hmac(packet: Buffer): Buffer {
+  return crypto.createHmac("md5", SECRET).update(packet).digest();
+}
+
+/**
+ * Проверяет подпись запроса так, как это делает NAS (RFC 5176, раздел 3.5)
+ */
+function verifyRequest(packet: Buffer): void {
+  const offset = messageAuthenticatorOffset(packet);
+  assert.notEqual(offset, -1, "request has no Message-Authenticator");
+
+  const zeroed = Buffer.from(packet);
+  zeroed.fill(0, 4, 20);
+  zeroed.fill(0, offset, offset + 16);
+  assert.deepEqual(hmac(zeroed), packet.subarray(offset, offset + 16));
+
+  const unsigned = Buffer.from(packet);
+  unsigned.fill(0, 4, 20);
+  assert.deepEqual(md5(unsigned, Buffer.from(SECRET)), packet.subarray(4, 20));
+}
+
+/**
+ * Ответ NAS с Message-Authenticator и Response Authenticator
+ * @param tamper - испортить Response Authenticator
+ */
+function buildReply(request: Buffer, code: number, tamper = false): Buffer {
+  const reply = Buffer.alloc(20 + 18);
+  reply.writeUInt8(code, 0);
+  reply.writeUInt8(request[1], 1);
+  reply.writeUInt16BE(reply.length, 2);
+  request.copy(reply, 4, 4, 20);
+  reply.writeUInt8(MESSAGE_AUTHENTICATOR, 20);
+  reply.writeUInt8(18, 21);
+  hmac(reply).copy(reply, 22);
+
+  const authenticator = md5(reply, Buffer.from(SECRET));
+  if (tamper) authenticator[0] ^= 0xff;
+  authenticator.copy(reply, 4);
+  return reply;
+}
+
+describe("RadiusCoAClient", () => {
+  const responder = dgram.createSocket("udp4");
+  let reply: (request: Buffer) => Buffer | null = () => null;
+  const received: Buffer[] = [];
+  let port = 0;
+
+  before(async () => {
+    responder.on("message", (message, remote) => {
+      received.push(message);
+      const answer = reply(message);
+      if (answer) responder.send(answer, remote.port, remote.address);
+    });
+    await new Promise<void>((resolve) => responder.bind(0, "127.0.0.1", resolve));
+    port = (responder.address() as AddressInfo).port;
+  });
+
+  after(() => responder.close());
+
+  const target = () => ({ host: "127.0.0.1", port, secret: SECRET, timeout: 200, retries: 1 });
+
+  it("signs the request and accepts a correctly signed ACK", async () => {
+    received.length = 0;
+    reply = (request) => {
+      verifyRequest(request);
+      return buildReply(request, RadiusCode.CoAACK);
+    };
+    const result = await new RadiusCoAClient().send(target(), RadiusCode.CoARequest, []);
+    assert.equal(result.code, RadiusCode.CoAACK);
+    assert.equal(result.acknowledged, true);
+    assert.equal(received.length, 1);
+  });
+
+  it("reports a NAK as not acknowledged", async () => {
+    reply = (request) => buildReply(request, RadiusCode.DisconnectNAK);
+    const result = await new RadiusCoAClient().send(target(), RadiusCode.DisconnectRequest, []);
+    assert.equal(result.code, RadiusCode.DisconnectNAK);
+    assert.equal(result.acknowledged, false);
+  });
+
+  it("ignores replies with a wrong Response Authenticator and times out", async () => {
+    received.length = 0;
+    reply = (request) => buildReply(request, RadiusCode.CoAACK, true);
+    const failing = () => new RadiusCoAClient().send(target(), RadiusCode.CoARequest, []);
+    await assert.rejects(failing, /No CoA reply .* after 2 attempts/);
+    assert.equal(received.length, 2);
+  });
+});
@@ -0,0 +1,83 @@
+// request-parser.test.ts
+// Разбор строки команды биллинга: правила кавычек, проверка параметров, удаление --password.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseSocketRequest, tokenize, withoutPassword } from "../src/request-parser";
+import { RequestError } from "../src/errors";
+
+describe("tokenize", () => {
+  it("splits words like a shell", () => {
+    assert.deepEqual(tokenize(`--reason 'two words' --login "a \\"b\\"" c\\ d`), [
+      "--reason",
+      "two words",
+      "--login",
+      'a "b"',
+      "c d",
+    ]);
+  });
+
+  it("rejects an unterminated quote", () => {
+    assert.throws(() => tokenize(`--login 'ivanov`), RequestError);
+  });
+});
+
+describe("parseSocketRequest", () => {
+  it("parses a billing command", () => {
+    const request = parseSocketRequest(
+      "--action start --login ivanov --nas 10.1.0.1 --ip 10.0.0.5 --shape 10240 --guest 1",
+    );
+    assert.equal(request.action, "start");
+    assert.equal(request.login, "ivanov");
+    assert.equal(request.nas, "10.1.0.1");
+    assert.equal(request.ip, "10.0.0.5");
+    assert.equal(request.guest, true);
+    assert.ok(request.shape);
+  });
+
+  it("takes the address from --net when --ip is missing", () => {
+    const request = parseSocketRequest("--action off --login ivanov --net 10.0.0.8/29");
+    assert.equal(request.ip, "10.0.0.8");
+    assert.equal(request.net?.prefix, 29);
+  });
+
+  it("ignores unknown parameters", () => {
+    const request = parseSocketRequest("--action stop --login ivanov --ip 10.0.0.5 --foo bar");
+    assert.equal(request.action, "stop");
+  });
+
+  it("rejects invalid commands", () => {
+    for (const line of [
+      "--action bogus --login ivanov --ip 10.0.0.5",
+      "--action start --ip 10.0.0.5",
+      "--action start --login ivanov",
+      "--action start --login ivanov --ip 10.0.0.500",
+      "--action start --login ivanov --ip 10.0.0.5 --ip 10.0.0.6",
+      "--action start --login ivanov --ip",
+      "action start",
+    ]) {
+      assert.throws(() => parseSocketRequest(line), RequestError, line);
+    }
+  });
+});
+
+describe("withoutPassword", () => {
+  it("removes --password and keeps the other values intact", () => {
+    const line = `--action create --password 's3cr et' --login ivanov --reason "it's new"`;
+    const stripped = withoutPassword(line);
+    assert.ok(!stripped.includes("s3cr"));
+    assert.deepEqual(tokenize(stripped), [
+      "--action",
+      "create",
+      "--login",
+      "ivanov",
+      "--reason",
+      "it's new",
+    ]);
+  });
+
+  it("leaves a command without --password unchanged", () => {
+    const line = "--action start --login ivanov --ip 10.0.0.5";
+    assert.equal(withoutPassword(line), line);
+  });
+});
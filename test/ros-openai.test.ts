@@ -0,0 +1,101 @@
+// ros-openai.test.ts
+// Клиент RouterOS API против эмулятора: логин, мультиплексирование по .tag, /cancel, '!trap'.
+
+import { after, afterEach, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ApiReply, getConnection, RouterOSClient } from "../src/ros-openai";
+import { LoginError, RouterOSError } from "../src/errors";
+import { RouterOSEmulator } from "./routeros-emulator";
+
+const USERS = { api: "secret" };
+
+async function collect(replies: AsyncGenerator<ApiReply, void, unknown>): Promise<ApiReply[]> {
+  const result: ApiReply[] = [];
+  for await (const reply of replies) result.push(reply);
+  return result;
+}
+
+describe("RouterOSClient login", () => {
+  for (const loginStyle of ["plain", "challenge"] as const) {
+    it(`logs in with ${loginStyle} login`, async () => {
+      const emulator = new RouterOSEmulator({ users: USERS, loginStyle, identity: "edge-1" });
+      const port = await emulator.listen();
+      const client = await getConnection("127.0.0.1", "api", "secret", false, port);
+      const replies = await collect(client.sendCommand(["/system/identity/print"]));
+      assert.deepEqual(replies[0], ["!re", { "=name": "edge-1" }]);
+      await client.close();
+      await emulator.close();
+    });
+
+    it(`rejects a wrong password with ${loginStyle} login`, async () => {
+      const emulator = new RouterOSEmulator({ users: USERS, loginStyle });
+      const port = await emulator.listen();
+      await assert.rejects(getConnection("127.0.0.1", "api", "wrong", false, port), LoginError);
+      await emulator.close();
+    });
+  }
+});
+
+describe("RouterOSClient commands", () => {
+  const emulator = new RouterOSEmulator({ users: USERS });
+  let client: RouterOSClient;
+
+  before(async () => {
+    const port = await emulator.listen();
+    client = await getConnection("127.0.0.1", "api", "secret", false, port);
+  });
+
+  afterEach(() => {
+    emulator.faults = {};
+    emulator.table("/queue/simple").clear();
+    emulator.table("/ip/dhcp-server/lease").clear();
+  });
+
+  after(async () => {
+    await client.close();
+    await emulator.close();
+  });
+
+  it("routes replies of concurrent commands by .tag", async () => {
+    emulator.table("/queue/simple").add({ name: "sub-ivanov", target: "10.0.0.5/32" });
+    emulator.table("/ip/dhcp-server/lease").add({ address: "10.0.0.6" });
+    emulator.faults.delay = 50;
+
+    const queues = client.command(["/queue/simple/print"]);
+    const leases = client.command(["/ip/dhcp-server/lease/print"]);
+    assert.notEqual(queues.tag, leases.tag);
+    assert.equal(client.pendingCommands, 2);
+
+    const [queueReplies, leaseReplies] = await Promise.all([
+      collect(queues.replies),
+      collect(leases.replies),
+    ]);
+    assert.equal(queueReplies[0][1]["=name"], "sub-ivanov");
+    assert.equal(leaseReplies[0][1]["=address"], "10.0.0.6");
+    assert.equal(client.pendingCommands, 0);
+  });
+
+  it("cancels a running command with /cancel", async () => {
+    emulator.faults.delay = 10_000;
+    const slow = client.command(["/queue/simple/print"]);
+    await slow.cancel();
+    const replies = await collect(slow.replies);
+    assert.deepEqual(replies[0], ["!trap", { "=category": "2", "=message": "interrupted" }]);
+    const cancel = emulator.received.find(([word]) => word === "/cancel");
+    assert.equal(cancel?.[1], `=tag=${slow.tag}`);
+  });
+
+  it("passes '!trap' to the caller and keeps the connection usable", async () => {
+    emulator.faults.trapOn = { command: "/queue/simple/add", message: "bad target", category: 1 };
+    const replies = await collect(client.sendCommand(["/queue/simple/add", "=target=x"]));
+    assert.deepEqual(replies[0], ["!trap", { "=category": "1", "=message": "bad target" }]);
+    assert.equal(replies.at(-1)?.[0], "!done");
+
+    emulator.faults = {};
+    assert.equal((await collect(client.sendCommand(["/system/identity/print"])))[0][0], "!re");
+  });
+
+  it("rejects an empty command before sending it", () => {
+    assert.throws(() => client.command([]), RouterOSError);
+  });
+});
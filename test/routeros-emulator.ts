@@ -0,0 +1,592 @@
+// routeros-emulator.ts
+// Эмулятор RouterOS API в памяти процесса: чтобы RouterAPI, ConnectionManager и демон
+// можно было прогнать от начала до конца без настоящего MikroTik.
+//
+// Что умеет:
+// - настоящий формат обмена: префиксы длины (1..5 байт), предложения, слова "=key=value", ".tag";
+// - /login в двух вариантах: name+password (RouterOS 6.43+) и challenge-response (=ret, MD5);
+// - таблицы /queue/simple, /ip/dhcp-server/lease, /ipv6/dhcp-server/binding,
+//   /ip/firewall/address-list, /ppp/active, /ip/hotspot/active с командами
+//   print (с =.proplist и запросами ?name=value, ?name, ?-name, ?<, ?>, ?#|&!.), add, set, remove,
+//   enable, disable и make-static;
+// - /system/identity/print и /cancel;
+// - '!trap' на ошибки команд и '!fatal' с закрытием соединения;
+// - внесение неисправностей (EmulatorFaults): задержка ответов, обрыв соединения после N команд,
+//   '!fatal' или '!trap' на выбранную команду, отказ в логине.
+//
+// Пример:
+//   const emulator = new RouterOSEmulator({ users: { api: "secret" } });
+//   const port = await emulator.listen();
+//   emulator.table("/queue/simple").add({ name: "ivanov", target: "10.0.0.5/32" });
+//   emulator.faults.delay = 200;
+//   ...
+//   await emulator.close();
+
+import net from "net";
+import crypto from "crypto";
+import { encodeLength } from "../src/ros-openai";
+
+/**
+ * Запись таблицы: свойства без префикса "=" (".id", "name", "max-limit")
+ */
+export type EmulatorRecord = Record<string, string>;
+
+/**
+ * Параметры эмулятора
+ * users - логины и пароли, которые принимает /login
+ * loginStyle - "plain" (name+password, RouterOS 6.43+) или "challenge" (=ret и MD5, старые версии)
+ * identity - ответ /system/identity/print
+ */
+export interface EmulatorOptions {
+  users?: Record<string, string>;
+  loginStyle?: "plain" | "challenge";
+  identity?: string;
+}
+
+/**
+ * Неисправности, которые эмулятор вносит в работу; можно менять на ходу
+ * delay - задержка каждого ответа в мс
+ * dropAfter - закрыть соединение без ответа на N-й команде после логина (счёт на соединение)
+ * fatalOn - ответить '!fatal' и закрыть соединение на команду с таким путём
+ * trapOn - ответить '!trap' на команду с таким путём; times — сколько раз (по умолчанию всегда)
+ * refuseLogin - отклонять любой /login
+ */
+export interface EmulatorFaults {
+  delay?: number;
+  dropAfter?: number;
+  fatalOn?: string;
+  trapOn?: { command: string; message: string; category?: number; times?: number };
+  refuseLogin?: boolean;
+}
+
+/**
+ * Ответ на команду: тип и атрибуты без ".tag"
+ */
+type Sentence = [reply: string, ...words: string[]];
+
+/**
+ * Ошибка выполнения команды, превращается в '!trap'
+ */
+class TrapError extends Error {
+  constructor(
+    message: string,
+    readonly category?: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Значения по умолчанию для новых записей таблиц
+ */
+const TABLE_DEFAULTS: Record<string, EmulatorRecord> = {
+  "/queue/simple": {
+    "max-limit": "0/0",
+    "limit-at": "0/0",
+    priority: "8/8",
+    queue: "default-small/default-small",
+    parent: "none",
+    disabled: "false",
+    dynamic: "false",
+  },
+  "/ip/dhcp-server/lease": {
+    "mac-address": "00:00:00:00:00:00",
+    server: "all",
+    status: "waiting",
+    disabled: "false",
+    dynamic: "false",
+    blocked: "false",
+  },
+  "/ipv6/dhcp-server/binding": {
+    duid: "",
+    iaid: "0",
+    "life-time": "3d",
+    server: "all",
+    status: "waiting",
+    disabled: "false",
+    dynamic: "false",
+  },
+  "/ip/firewall/address-list": {
+    disabled: "false",
+    dynamic: "false",
+  },
+  "/ppp/active": {
+    service: "pppoe",
+    "caller-id": "00:00:00:00:00:00",
+    uptime: "0s",
+    radius: "true",
+  },
+  "/ip/hotspot/active": {
+    server: "hotspot1",
+    "mac-address": "00:00:00:00:00:00",
+    "login-by": "http-chap",
+    uptime: "0s",
+    radius: "true",
+  },
+};
+
+// ─────────────────────────── Таблицы ───────────────────────────
+
+/**
+ * Таблица RouterOS в памяти
+ */
+export class EmulatorTable {
+  private records = new Map<string, EmulatorRecord>();
+  private nextId = 1;
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Добавляет запись и возвращает её .id ("*1", "*2", ...)
+   */
+  add(values: EmulatorRecord): string {
+    this.validate(values);
+    const number = this.nextId++;
+    const id = `*${number.toString(16).toUpperCase()}`;
+    const record: EmulatorRecord = { ".id": id, ...TABLE_DEFAULTS[this.path], ...values };
+    if (this.path === "/queue/simple") {
+      record.name ??= `queue${number}`;
+    }
+    this.records.set(id, record);
+    return id;
+  }
+
+  set(id: string, values: EmulatorRecord): void {
+    const record = this.get(id);
+    this.validate(values, id);
+    Object.assign(record, values);
+  }
+
+  remove(id: string): void {
+    this.get(id);
+    this.records.delete(id);
+  }
+
+  get(id: string): EmulatorRecord {
+    const record = this.records.get(id);
+    if (!record) throw new TrapError("no such item");
+    return record;
+  }
+
+  all(): EmulatorRecord[] {
+    return [...this.records.values()];
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+
+  /**
+   * Ограничения RouterOS, которые важны для RouterAPI
+   */
+  private validate(values: EmulatorRecord, id?: string) {
+    if (this.path === "/ip/firewall/address-list") {
+      const merged = { ...(id ? this.records.get(id) : {}), ...values };
+      const duplicate = this.all().some(
+        (r) => r[".id"] !== id && r.list === merged.list && r.address === merged.address,
+      );
+      if (duplicate) throw new TrapError("failure: already have such entry");
+    }
+    if (this.path === "/queue/simple" && values.name !== undefined) {
+      if (this.all().some((r) => r[".id"] !== id && r.name === values.name)) {
+        throw new TrapError("failure: already have queue with such name");
+      }
+    }
+  }
+}
+
+/**
+ * Проверяет запись по словам запроса print по правилам стека RouterOS:
+ * каждое условие кладёт результат в стек, "?#" выполняет над стеком операции,
+ * в конце все значения стека объединяются через И
+ */
+function matches(record: EmulatorRecord, queries: string[]): boolean {
+  const stack: boolean[] = [];
+  const compare = (a: string | undefined, b: string) => {
+    if (a === undefined) return NaN;
+    const x = Number(a);
+    const y = Number(b);
+    return Number.isNaN(x) || Number.isNaN(y) ? a.localeCompare(b) : x - y;
+  };
+
+  for (const query of queries) {
+    const body = query.slice(1);
+    if (body.startsWith("#")) {
+      for (const op of body.slice(1)) {
+        switch (op) {
+          case "!":
+            stack.push(!stack.pop());
+            break;
+          case ".":
+            stack.push(stack[stack.length - 1] ?? true);
+            break;
+          case "|":
+          case "&": {
+            const b = stack.pop() ?? true;
+            const a = stack.pop() ?? true;
+            stack.push(op === "|" ? a || b : a && b);
+            break;
+          }
+          default:
+            if (!/\d/.test(op)) throw new TrapError(`unknown query operation ${op}`);
+            stack.push(stack[Number(op)] ?? true);
+        }
+      }
+      continue;
+    }
+    const operator = body[0];
+    if (operator === "-") {
+      stack.push(!(body.slice(1) in record));
+    } else if (operator === "<" || operator === ">") {
+      const [name, ...value] = body.slice(1).split("=");
+      const diff = compare(record[name], value.join("="));
+      stack.push(operator === "<" ? diff < 0 : diff > 0);
+    } else {
+      const split = body.indexOf("=");
+      if (split === -1) stack.push(body in record);
+      else stack.push(record[body.slice(0, split)] === body.slice(split + 1));
+    }
+  }
+  return stack.every(Boolean);
+}
+
+// ─────────────────────────── Протокол ───────────────────────────
+
+function encodeSentence(words: string[]): Buffer {
+  const buffers = [...words, ""].map((word) => {
+    const data = Buffer.from(word, "utf8");
+    return Buffer.concat([encodeLength(data.length), data]);
+  });
+  return Buffer.concat(buffers);
+}
+
+/**
+ * Читает префикс длины из буфера
+ * @returns [длина, размер префикса] или null, если байт пока не хватает
+ */
+function decodeLength(buffer: Buffer, offset: number): [number, number] | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  // Число ведущих единиц первого байта определяет размер префикса: 0xxxxxxx — 1 байт,
+  // 10xxxxxx — 2, 110xxxxx — 3, 1110xxxx — 4, 11110xxx — 5 (длина в следующих 4 байтах)
+  const masks = [0x7f, 0x3f, 0x1f, 0x0f];
+  let size = 1;
+  while (size < 5 && first & (0x80 >> (size - 1))) size++;
+  if (offset + size > buffer.length) return null;
+  if (size === 5) return [buffer.readUInt32BE(offset + 1), 5];
+  let length = first & masks[size - 1];
+  for (let i = 1; i < size; i++) length = length * 256 + buffer[offset + i];
+  return [length, size];
+}
+
+/**
+ * Разбирает атрибуты команды "=key=value" в словарь без "="
+ */
+function parseAttributes(words: string[]): EmulatorRecord {
+  const attributes: EmulatorRecord = {};
+  for (const word of words) {
+    if (!word.startsWith("=")) continue;
+    const split = word.indexOf("=", 1);
+    if (split === -1) attributes[word.slice(1)] = "";
+    else attributes[word.slice(1, split)] = word.slice(split + 1);
+  }
+  return attributes;
+}
+
+/**
+ * Одно клиентское соединение с эмулятором
+ */
+class EmulatorSession {
+  private buffer = Buffer.alloc(0);
+  private words: string[] = [];
+  private loggedIn = false;
+  private challenge: Buffer | null = null;
+  private commands = 0;
+  private pending = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly emulator: RouterOSEmulator,
+    readonly socket: net.Socket,
+  ) {
+    socket.on("data", (chunk) => this.feed(chunk));
+    socket.on("error", () => {});
+    socket.on("close", () => {
+      for (const timer of this.pending.values()) clearTimeout(timer);
+    });
+  }
+
+  private feed(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let offset = 0;
+    while (true) {
+      const prefix = decodeLength(this.buffer, offset);
+      if (!prefix) break;
+      const [length, size] = prefix;
+      if (offset + size + length > this.buffer.length) break;
+      const word = this.buffer.toString("utf8", offset + size, offset + size + length);
+      offset += size + length;
+      if (word === "") {
+        const sentence = this.words;
+        this.words = [];
+        if (sentence.length) this.handle(sentence);
+      } else {
+        this.words.push(word);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private send(sentences: Sentence[], tag: string | undefined) {
+    if (this.socket.destroyed) return;
+    const suffix = tag === undefined ? [] : [`.tag=${tag}`];
+    const data = sentences.map((sentence) => encodeSentence([...sentence, ...suffix]));
+    this.socket.write(Buffer.concat(data));
+  }
+
+  private fatal(message: string) {
+    if (this.socket.destroyed) return;
+    this.socket.end(encodeSentence(["!fatal", message]));
+  }
+
+  private handle(sentence: string[]) {
+    const [command, ...rest] = sentence;
+    const tagWord = rest.find((word) => word.startsWith(".tag="));
+    const tag = tagWord?.slice(".tag=".length);
+    const faults = this.emulator.faults;
+    this.emulator.received.push(sentence);
+
+    if (command === "/cancel") {
+      this.cancel(parseAttributes(rest).tag, tag);
+      return;
+    }
+
+    if (this.loggedIn && command !== "/login") {
+      this.commands++;
+      if (faults.dropAfter !== undefined && this.commands >= faults.dropAfter) {
+        this.socket.destroy();
+        return;
+      }
+      if (faults.fatalOn === command) {
+        this.fatal("session terminated on request");
+        return;
+      }
+    }
+
+    let replies: Sentence[];
+    try {
+      replies = this.execute(command, rest);
+    } catch (err) {
+      if (!(err instanceof TrapError)) throw err;
+      const category = err.category === undefined ? [] : [`=category=${err.category}`];
+      replies = [["!trap", ...category, `=message=${err.message}`], ["!done"]];
+    }
+
+    const delay = faults.delay ?? 0;
+    if (delay <= 0 || tag === undefined) {
+      this.send(replies, tag);
+      return;
+    }
+    const timer = setTimeout(() => {
+      this.pending.delete(tag);
+      this.send(replies, tag);
+    }, delay);
+    this.pending.set(tag, timer);
+  }
+
+  /**
+   * /cancel =tag=N: отменённая команда получает '!trap' с категорией 2 и '!done'
+   */
+  private cancel(target: string | undefined, tag: string | undefined) {
+    const timer = target === undefined ? undefined : this.pending.get(target);
+    if (timer) {
+      clearTimeout(timer);
+      this.pending.delete(target!);
+      this.send([["!trap", "=category=2", "=message=interrupted"], ["!done"]], target);
+    }
+    this.send([["!done"]], tag);
+  }
+
+  private execute(command: string, words: string[]): Sentence[] {
+    const attributes = parseAttributes(words);
+    const faults = this.emulator.faults;
+
+    if (command === "/login") return this.login(attributes);
+    if (!this.loggedIn) throw new TrapError("not logged in");
+
+    if (faults.trapOn?.command === command) {
+      const { message, category, times } = faults.trapOn;
+      if (times !== undefined && times <= 1) delete faults.trapOn;
+      else if (times !== undefined) faults.trapOn.times = times - 1;
+      throw new TrapError(message, category);
+    }
+    if (command === "/system/identity/print") {
+      return [["!re", `=name=${this.emulator.identity}`], ["!done"]];
+    }
+
+    const split = command.lastIndexOf("/");
+    const table = this.emulator.findTable(command.slice(0, split));
+    if (!table) throw new TrapError("no such command prefix", 0);
+    const { ".id": id, ".proplist": proplist, ...values } = attributes;
+
+    switch (command.slice(split + 1)) {
+      case "print": {
+        const queries = words.filter((word) => word.startsWith("?"));
+        const names = proplist?.split(",");
+        return [
+          ...table
+            .all()
+            .filter((record) => matches(record, queries))
+            .map((record): Sentence => {
+              const entries = Object.entries(record).filter(
+                ([key]) => !names || names.includes(key),
+              );
+              return ["!re", ...entries.map(([key, value]) => `=${key}=${value}`)];
+            }),
+          ["!done"],
+        ];
+      }
+      case "add":
+        return [["!done", `=ret=${table.add(values)}`]];
+      case "set":
+        for (const each of this.ids(id)) table.set(each, values);
+        return [["!done"]];
+      case "remove":
+        for (const each of this.ids(id)) table.remove(each);
+        return [["!done"]];
+      case "enable":
+      case "disable": {
+        const disabled = String(command.endsWith("/disable"));
+        for (const each of this.ids(id)) table.set(each, { disabled });
+        return [["!done"]];
+      }
+      case "make-static":
+        for (const each of this.ids(id)) table.set(each, { dynamic: "false" });
+        return [["!done"]];
+      default:
+        throw new TrapError("no such command", 0);
+    }
+  }
+
+  private ids(id: string | undefined): string[] {
+    if (!id) throw new TrapError("missing =.id=", 1);
+    return id.split(",");
+  }
+
+  private login(attributes: EmulatorRecord): Sentence[] {
+    const { users, loginStyle, faults } = this.emulator;
+    const name = attributes.name;
+    const password = name === undefined ? undefined : users[name];
+    const refuse = () => {
+      throw new TrapError("invalid user name or password (6)");
+    };
+
+    if (loginStyle === "challenge") {
+      if (attributes.response === undefined) {
+        this.challenge = crypto.randomBytes(16);
+        return [["!done", `=ret=${this.challenge.toString("hex")}`]];
+      }
+      if (faults.refuseLogin || password === undefined || !this.challenge) refuse();
+      const expected = crypto
+        .createHash("md5")
+        .update(Buffer.from([0]))
+        .update(Buffer.from(password!, "utf8"))
+        .update(this.challenge!)
+        .digest("hex");
+      if (attributes.response !== `00${expected}`) refuse();
+    } else if (faults.refuseLogin || password === undefined || attributes.password !== password) {
+      refuse();
+    }
+    this.loggedIn = true;
+    return [["!done"]];
+  }
+}
+
+// ─────────────────────────── Сервер ───────────────────────────
+
+/**
+ * RouterOSEmulator — TCP сервер, отвечающий как RouterOS API
+ */
+export class RouterOSEmulator {
+  readonly users: Record<string, string>;
+  readonly loginStyle: "plain" | "challenge";
+  readonly identity: string;
+  faults: EmulatorFaults = {};
+
+  /**
+   * Все полученные команды (с .tag и атрибутами) — для проверок в тестах
+   */
+  readonly received: string[][] = [];
+
+  private tables = new Map<string, EmulatorTable>();
+  private sessions = new Set<EmulatorSession>();
+  private server = net.createServer((socket) => {
+    const session = new EmulatorSession(this, socket);
+    this.sessions.add(session);
+    socket.on("close", () => this.sessions.delete(session));
+  });
+
+  constructor(options: EmulatorOptions = {}) {
+    this.users = options.users ?? { admin: "" };
+    this.loginStyle = options.loginStyle ?? "plain";
+    this.identity = options.identity ?? "MikroTik";
+    for (const path of Object.keys(TABLE_DEFAULTS)) {
+      this.tables.set(path, new EmulatorTable(path));
+    }
+  }
+
+  /**
+   * Начинает принимать соединения
+   * @param port - порт; 0 — любой свободный
+   * @returns фактический порт
+   */
+  listen(port = 0, host = "127.0.0.1"): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve(this.port);
+      });
+    });
+  }
+
+  get port(): number {
+    const address = this.server.address();
+    return typeof address === "object" && address ? address.port : 0;
+  }
+
+  /**
+   * Количество открытых клиентских соединений
+   */
+  get connections(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Таблица по пути, например "/queue/simple"
+   * @throws Error если такой таблицы эмулятор не поддерживает
+   */
+  table(path: string): EmulatorTable {
+    const table = this.findTable(path);
+    if (!table) throw new Error(`Emulator has no table ${path}`);
+    return table;
+  }
+
+  findTable(path: string): EmulatorTable | undefined {
+    return this.tables.get(path);
+  }
+
+  /**
+   * Обрывает все клиентские соединения (как при перезагрузке роутера)
+   */
+  dropConnections(): void {
+    for (const session of this.sessions) session.socket.destroy();
+  }
+
+  /**
+   * Останавливает сервер и обрывает соединения
+   */
+  close(): Promise<void> {
+    this.dropConnections();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,20 @@
+// shape.test.ts
+// Скорость из --shape: число в kbit доходит до очереди и CoA без округления до мегабит.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatRateLimit, parseShape, queueAttributes } from "../src/shape";
+
+describe("parseShape", () => {
+  for (const [shape, rate] of [
+    ["512", "512k/512k"],
+    ["1500", "1500k/1500k"],
+    ["10000", "10M/10M"],
+  ]) {
+    it(`keeps ${shape} kbit as ${rate}`, () => {
+      const profile = parseShape(shape, "--shape");
+      assert.equal(formatRateLimit(profile), rate);
+      assert.equal(queueAttributes(profile, "default-small/default-small")["max-limit"], rate);
+    });
+  }
+});